@@ -3,18 +3,30 @@ import dotenv from 'dotenv';
 
 dotenv.config({ path: '.env.local' });
 
-if (!process.env.PINECONE_API_KEY) {
-    throw new Error('PINECONE_API_KEY is not defined in .env.local');
-}
+export const INDEX_NAME = process.env.PINECONE_INDEX_NAME || 'realdata';
+// Optional: when unset, the client resolves the host from the index name
+export const INDEX_HOST = process.env.PINECONE_INDEX_HOST || undefined;
+
+let pinecone: Pinecone | null = null;
 
-export const pinecone = new Pinecone({
-    apiKey: process.env.PINECONE_API_KEY,
-});
+/**
+ * Get the Pinecone client, created on first use so that offline
+ * providers can run without a PINECONE_API_KEY.
+ */
+export function getPineconeClient(): Pinecone {
+    if (!pinecone) {
+        if (!process.env.PINECONE_API_KEY) {
+            throw new Error('PINECONE_API_KEY is not defined in .env.local');
+        }
 
-export const INDEX_NAME = 'realdata';
-export const INDEX_HOST = 'https://realdata-6wbd61w.svc.aped-4627-b74a.pinecone.io';
+        pinecone = new Pinecone({
+            apiKey: process.env.PINECONE_API_KEY,
+        });
+    }
+    return pinecone;
+}
 
 export async function getPineconeIndex() {
-    const index = pinecone.index(INDEX_NAME, INDEX_HOST);
+    const index = getPineconeClient().index(INDEX_NAME, INDEX_HOST);
     return index;
 }
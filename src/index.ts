@@ -8,6 +8,10 @@ import cacheRouter from './routes/cache';
 import roomRouter from './routes/room';
 import authRouter from './routes/auth';
 import searchRouter from './routes/search';
+import documentsRouter from './routes/documents';
+import jobsRouter from './routes/jobs';
+import foldersRouter from './routes/folders';
+import reindexRouter from './routes/reindex';
 import logger from './utils/logger';
 
 dotenv.config({ path: '.env.local' });
@@ -41,6 +45,10 @@ app.use('/api/cache', cacheRouter);
 app.use('/api/room', roomRouter);
 app.use('/api/auth', authRouter);
 app.use('/api/search', searchRouter);
+app.use('/api/documents', documentsRouter);
+app.use('/api/jobs', jobsRouter);
+app.use('/api/folders', foldersRouter);
+app.use('/api/reindex', reindexRouter);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -55,10 +63,29 @@ app.get('/', (req, res) => {
       upload: 'POST /api/upload',
       uploadMultiple: 'POST /api/upload/multiple',
       uploadPineconeOnly: 'POST /api/upload/re-pinecone',
+      job: 'GET /api/jobs/:id',
+      jobEvents: 'GET /api/jobs/:id/events',
+      jobRetry: 'POST /api/jobs/:id/retry',
       chat: 'POST /api/chat',
       search: 'POST /api/search',
-      download: 'GET /api/download/:fileName',
+      download: 'GET /api/download/:storagePath',
+      signDownload: 'POST /api/download/sign',
       listFiles: 'GET /api/download',
+      documents: 'GET /api/documents',
+      document: 'GET /api/documents/:id',
+      documentChunks: 'GET /api/documents/:id/chunks',
+      chunkingDryRun: 'GET /api/documents/:id/chunks/dry-run',
+      deleteDocument: 'DELETE /api/documents/:storagePath',
+      deleteDocuments: 'POST /api/documents/bulk-delete',
+      folders: 'GET /api/folders',
+      createFolder: 'POST /api/folders',
+      moveFolder: 'PATCH /api/folders/:folderPath',
+      deleteFolder: 'DELETE /api/folders/:folderPath',
+      documentVersions: 'GET /api/documents/versions?documentKey=',
+      rollbackDocument: 'POST /api/documents/versions/:id/rollback',
+      reindex: 'POST /api/reindex',
+      reindexStatus: 'GET /api/reindex/:id',
+      reindexEvents: 'GET /api/reindex/:id/events',
       cacheIndex: 'POST /api/cache/index',
       cacheStatus: 'GET /api/cache/status',
       cacheClear: 'DELETE /api/cache/clear',
@@ -0,0 +1,82 @@
+import { Request, Response, NextFunction } from 'express';
+import { supabase } from '../config/supabase';
+
+// Extended Request interface with user
+export interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        email?: string;
+        [key: string]: any;
+    };
+}
+
+/**
+ * Authentication Middleware
+ * Extracts and validates the Bearer token from Authorization header
+ * Attaches user info to the request object
+ */
+export const authenticateUser = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const authHeader = req.headers.authorization;
+
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            return res.status(401).json({
+                success: false,
+                error: 'Authentication required. Please provide a valid access token.',
+            });
+        }
+
+        const token = authHeader.split(' ')[1];
+
+        const { data, error } = await supabase.auth.getUser(token);
+
+        if (error || !data.user) {
+            return res.status(401).json({
+                success: false,
+                error: 'Invalid or expired access token.',
+            });
+        }
+
+        // Attach user to request
+        req.user = data.user;
+        next();
+    } catch (error) {
+        console.error('Authentication error:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Authentication failed.',
+        });
+    }
+};
+
+/**
+ * Optional Authentication Middleware
+ * Attaches the user when a valid Bearer token is present. Anonymous requests,
+ * and requests with a missing, invalid or expired token, go through without a
+ * user; routes that need one for part of the request (e.g. a chat room) answer 401 themselves.
+ */
+export const optionalAuthenticateUser = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+) => {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return next();
+    }
+
+    try {
+        const { data, error } = await supabase.auth.getUser(authHeader.split(' ')[1]);
+        if (!error && data.user) {
+            req.user = data.user;
+        }
+    } catch (error) {
+        console.error('Optional authentication error:', error);
+    }
+    next();
+};
@@ -0,0 +1,41 @@
+import dotenv from 'dotenv';
+import path from 'path';
+import logger from '../../utils/logger';
+import { DocumentStore } from './types';
+import { LocalDocumentStore } from './local';
+
+dotenv.config({ path: '.env.local' });
+
+export * from './types';
+
+let store: DocumentStore | null = null;
+
+function createDocumentStore(): DocumentStore {
+  const storeName = (process.env.DOCUMENT_STORE || 'supabase').toLowerCase();
+
+  switch (storeName) {
+    case 'supabase': {
+      // Loaded lazily so the local backend never requires Supabase credentials
+      const { SupabaseDocumentStore } = require('./supabase') as typeof import('./supabase');
+      return new SupabaseDocumentStore();
+    }
+    case 'local':
+      return new LocalDocumentStore(
+        process.env.DOCUMENT_STORE_PATH || path.join(process.cwd(), '.local-data', 'documents.json')
+      );
+    default:
+      throw new Error(`Unknown DOCUMENT_STORE "${storeName}". Use supabase or local.`);
+  }
+}
+
+/**
+ * Get the configured document records store (created once, on first use).
+ * DOCUMENT_STORE=supabase (default) | local
+ */
+export function getDocumentStore(): DocumentStore {
+  if (!store) {
+    store = createDocumentStore();
+    logger.log(`[DocumentStore] Using "${store.name}" document store`);
+  }
+  return store;
+}
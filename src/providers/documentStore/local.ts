@@ -0,0 +1,141 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import logger from '../../utils/logger';
+import {
+  DocumentListPage, DocumentListQuery, DocumentQuery, DocumentRecord, DocumentRecordPatch, DocumentStore,
+  NewDocumentRecord
+} from './types';
+
+function matchesListQuery(record: DocumentRecord, query: DocumentListQuery): boolean {
+  if (query.folder !== undefined && record.folder !== query.folder) {
+    const inSubfolder = query.includeSubfolders && (!query.folder || record.folder.startsWith(`${query.folder}/`));
+    if (!inSubfolder) return false;
+  }
+  if (query.statuses && !query.statuses.includes(record.status)) return false;
+  if (query.fileType !== undefined && record.fileType !== query.fileType) return false;
+  if (query.uploadedBy !== undefined && record.uploadedBy !== query.uploadedBy) return false;
+  if (query.createdAfter !== undefined && record.createdAt < query.createdAfter) return false;
+  if (query.createdBefore !== undefined && record.createdAt > query.createdBefore) return false;
+  if (query.search) {
+    const search = query.search.toLowerCase();
+    const names = [record.originalName, record.fileName].filter(Boolean).map(name => name.toLowerCase());
+    if (!names.some(name => name.includes(search))) return false;
+  }
+  return true;
+}
+
+// Missing values (pageCount of non-PDF files) sort last in both directions
+function compareRecords(a: DocumentRecord, b: DocumentRecord, query: DocumentListQuery): number {
+  const left = a[query.sortBy];
+  const right = b[query.sortBy];
+  if (left === undefined || right === undefined) {
+    if (left !== right) return left === undefined ? 1 : -1;
+  } else if (left !== right) {
+    const order = typeof left === 'string' ? left.localeCompare(String(right)) : Number(left) - Number(right);
+    return query.sortOrder === 'asc' ? order : -order;
+  }
+  return a.id.localeCompare(b.id);
+}
+
+/**
+ * Document records persisted to a single JSON file, for local development and
+ * deployments without Supabase.
+ */
+export class LocalDocumentStore implements DocumentStore {
+  readonly name = 'local';
+  private readonly filePath: string;
+  private records: Map<string, DocumentRecord> | null = null;
+  private loading: Promise<Map<string, DocumentRecord>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  private async load(): Promise<Map<string, DocumentRecord>> {
+    if (this.records) return this.records;
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        const records = new Map<string, DocumentRecord>();
+        try {
+          const content = await fs.readFile(this.filePath, 'utf-8');
+          for (const record of JSON.parse(content) as DocumentRecord[]) {
+            records.set(record.id, record);
+          }
+          logger.log(`[DocumentStore:local] Loaded ${records.size} document records from ${this.filePath}`);
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') throw error;
+        }
+        this.records = records;
+        return records;
+      })();
+    }
+
+    return this.loading;
+  }
+
+  // Writes are serialized so concurrent mutations never interleave on disk
+  private persist(): Promise<void> {
+    this.writeQueue = this.writeQueue.then(async () => {
+      const records = Array.from((this.records || new Map()).values());
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(records, null, 2));
+      await fs.rename(tempPath, this.filePath);
+    });
+    return this.writeQueue;
+  }
+
+  async insert(record: NewDocumentRecord): Promise<DocumentRecord> {
+    const store = await this.load();
+    const now = new Date().toISOString();
+    const created: DocumentRecord = { ...record, id: randomUUID(), createdAt: now, updatedAt: now };
+    store.set(created.id, created);
+    await this.persist();
+    return created;
+  }
+
+  async update(id: string, patch: DocumentRecordPatch): Promise<DocumentRecord | null> {
+    const store = await this.load();
+    const existing = store.get(id);
+    if (!existing) return null;
+
+    const updated: DocumentRecord = { ...existing, ...patch, id, updatedAt: new Date().toISOString() };
+    store.set(id, updated);
+    await this.persist();
+    return updated;
+  }
+
+  async get(id: string): Promise<DocumentRecord | null> {
+    const store = await this.load();
+    return store.get(id) || null;
+  }
+
+  async find(query: DocumentQuery): Promise<DocumentRecord[]> {
+    const store = await this.load();
+    const criteria = Object.entries(query).filter(([, value]) => value !== undefined);
+
+    return Array.from(store.values())
+      .filter(record => criteria.every(([key, value]) => record[key as keyof DocumentRecord] === value))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async list(query: DocumentListQuery): Promise<DocumentListPage> {
+    const store = await this.load();
+    const matches = Array.from(store.values())
+      .filter(record => matchesListQuery(record, query))
+      .sort((a, b) => compareRecords(a, b, query));
+
+    return { records: matches.slice(query.offset, query.offset + query.limit), total: matches.length };
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    const store = await this.load();
+    for (const id of ids) {
+      store.delete(id);
+    }
+    await this.persist();
+  }
+}
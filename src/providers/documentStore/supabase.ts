@@ -0,0 +1,163 @@
+import { supabaseAdmin } from '../../config/supabase';
+import {
+  DocumentListPage, DocumentListQuery, DocumentQuery, DocumentRecord, DocumentRecordPatch, DocumentStore,
+  NewDocumentRecord
+} from './types';
+
+const TABLE_NAME = 'documents';
+// Record ids are uuid columns; PostgREST rejects any other value with an error instead of no match
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Record field → table column
+const COLUMNS: Record<keyof DocumentRecord, string> = {
+  id: 'id',
+  documentKey: 'document_key',
+  version: 'version',
+  originalName: 'original_name',
+  fileName: 'file_name',
+  fileType: 'file_type',
+  folder: 'folder',
+  storagePath: 'storage_path',
+  contentHash: 'content_hash',
+  size: 'size',
+  pageCount: 'page_count',
+  chunksCount: 'chunks_count',
+  uploadedBy: 'uploaded_by',
+  uploaderEmail: 'uploader_email',
+  status: 'status',
+  changes: 'changes',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+function toRow(record: Partial<DocumentRecord>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(record)) {
+    if (value !== undefined) row[COLUMNS[field as keyof DocumentRecord]] = value;
+  }
+  return row;
+}
+
+function fromRow(row: Record<string, any>): DocumentRecord {
+  const record: Record<string, unknown> = {};
+  for (const [field, column] of Object.entries(COLUMNS)) {
+    if (row[column] !== null && row[column] !== undefined) record[field] = row[column];
+  }
+  return record as unknown as DocumentRecord;
+}
+
+// Quote a value for a PostgREST `or` filter, where commas and parentheses are syntax
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, match => `\\${match}`)}"`;
+}
+
+// Match `value` literally inside a LIKE pattern
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Document records kept in the Supabase `documents` table (see README for the schema).
+ * Uses the service-role client: the table is written by the server only.
+ */
+export class SupabaseDocumentStore implements DocumentStore {
+  readonly name = 'supabase';
+
+  async insert(record: NewDocumentRecord): Promise<DocumentRecord> {
+    const { data, error } = await supabaseAdmin
+      .from(TABLE_NAME)
+      .insert(toRow(record))
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to insert document record: ${error?.message}`);
+    }
+    return fromRow(data);
+  }
+
+  async update(id: string, patch: DocumentRecordPatch): Promise<DocumentRecord | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+
+    const { data, error } = await supabaseAdmin
+      .from(TABLE_NAME)
+      .update(toRow({ ...patch, updatedAt: new Date().toISOString() }))
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update document record ${id}: ${error.message}`);
+    }
+    return data ? fromRow(data) : null;
+  }
+
+  async get(id: string): Promise<DocumentRecord | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+
+    const { data, error } = await supabaseAdmin
+      .from(TABLE_NAME)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read document record ${id}: ${error.message}`);
+    }
+    return data ? fromRow(data) : null;
+  }
+
+  async find(query: DocumentQuery): Promise<DocumentRecord[]> {
+    let request = supabaseAdmin.from(TABLE_NAME).select('*');
+    for (const [column, value] of Object.entries(toRow(query))) {
+      request = request.eq(column, value);
+    }
+
+    const { data, error } = await request.order('created_at', { ascending: true });
+    if (error) {
+      throw new Error(`Failed to query document records: ${error.message}`);
+    }
+    return (data || []).map(fromRow);
+  }
+
+  async list(query: DocumentListQuery): Promise<DocumentListPage> {
+    let request = supabaseAdmin.from(TABLE_NAME).select('*', { count: 'exact' });
+
+    if (query.folder !== undefined) {
+      if (!query.includeSubfolders) {
+        request = request.eq('folder', query.folder);
+      } else if (query.folder) {
+        const subfolders = quoteFilterValue(`${escapeLike(query.folder)}/%`);
+        request = request.or(`folder.eq.${quoteFilterValue(query.folder)},folder.like.${subfolders}`);
+      }
+    }
+    if (query.statuses) request = request.in('status', query.statuses);
+    if (query.fileType !== undefined) request = request.eq('file_type', query.fileType);
+    if (query.uploadedBy !== undefined) request = request.eq('uploaded_by', query.uploadedBy);
+    if (query.createdAfter !== undefined) request = request.gte('created_at', query.createdAfter);
+    if (query.createdBefore !== undefined) request = request.lte('created_at', query.createdBefore);
+    if (query.search) {
+      const pattern = quoteFilterValue(`%${escapeLike(query.search)}%`);
+      request = request.or(`original_name.ilike.${pattern},file_name.ilike.${pattern}`);
+    }
+
+    const { data, error, count } = await request
+      .order(COLUMNS[query.sortBy], { ascending: query.sortOrder === 'asc', nullsFirst: false })
+      .order('id', { ascending: true })
+      .range(query.offset, query.offset + query.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list document records: ${error.message}`);
+    }
+    return { records: (data || []).map(fromRow), total: count ?? 0 };
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const { error } = await supabaseAdmin.from(TABLE_NAME).delete().in('id', ids);
+    if (error) {
+      throw new Error(`Failed to delete document records: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+// processing: upload in progress; failed: an ingestion stage failed (the job can be retried);
+// active: the indexed version; superseded: replaced by a newer version, kept for rollback
+export type DocumentStatus = 'processing' | 'active' | 'superseded' | 'failed';
+
+// Lines added/removed compared with the version this one replaced
+export interface DocumentChanges {
+  addedLines: number;
+  removedLines: number;
+  sampleAdded: string[];
+  sampleRemoved: string[];
+}
+
+/**
+ * One uploaded version of a logical document.
+ * Versions of the same document share a `documentKey` (folder/sanitized file name);
+ * only the `active` version has vectors in the vector store.
+ */
+export interface DocumentRecord {
+  id: string;
+  documentKey: string;
+  version: number;
+  originalName: string; // file name as uploaded
+  fileName: string; // sanitized
+  fileType: string; // extension without the dot
+  folder: string;
+  storagePath: string;
+  contentHash: string; // SHA-256 of the file bytes, hex
+  size: number;
+  pageCount?: number; // PDFs only
+  chunksCount: number; // 0 until the upload is indexed
+  // Signed-in user who uploaded the file
+  uploadedBy?: string;
+  uploaderEmail?: string;
+  status: DocumentStatus;
+  changes?: DocumentChanges;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewDocumentRecord = Omit<DocumentRecord, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type DocumentRecordPatch = Partial<Omit<DocumentRecord, 'id' | 'createdAt'>>;
+
+// Exact-match criteria; omitted fields are not filtered on
+export interface DocumentQuery {
+  documentKey?: string;
+  contentHash?: string;
+  storagePath?: string;
+  status?: DocumentStatus;
+}
+
+export type DocumentSortField = 'createdAt' | 'updatedAt' | 'fileName' | 'size' | 'pageCount' | 'chunksCount';
+
+// Filters, sort and page of a document listing; omitted filters are not applied
+export interface DocumentListQuery {
+  folder?: string;
+  includeSubfolders?: boolean;
+  statuses?: DocumentStatus[];
+  fileType?: string;
+  uploadedBy?: string;
+  search?: string; // case-insensitive, in the original or sanitized file name
+  createdAfter?: string; // ISO timestamps
+  createdBefore?: string;
+  sortBy: DocumentSortField;
+  sortOrder: 'asc' | 'desc';
+  offset: number;
+  limit: number;
+}
+
+export interface DocumentListPage {
+  records: DocumentRecord[];
+  total: number; // records matching the filters, across all pages
+}
+
+/**
+ * Common interface for the document records store.
+ * Implementations are picked by `getDocumentStore()` from the DOCUMENT_STORE setting.
+ */
+export interface DocumentStore {
+  readonly name: string;
+
+  insert(record: NewDocumentRecord): Promise<DocumentRecord>;
+  // Returns null when the record does not exist
+  update(id: string, patch: DocumentRecordPatch): Promise<DocumentRecord | null>;
+  get(id: string): Promise<DocumentRecord | null>;
+  // Sorted by creation time, oldest first
+  find(query: DocumentQuery): Promise<DocumentRecord[]>;
+  list(query: DocumentListQuery): Promise<DocumentListPage>;
+  delete(ids: string[]): Promise<void>;
+}
@@ -0,0 +1,41 @@
+import dotenv from 'dotenv';
+import logger from '../../utils/logger';
+import { EmbeddingProvider } from './types';
+import { PineconeEmbeddingProvider } from './pinecone';
+import { LocalEmbeddingProvider } from './local';
+
+dotenv.config({ path: '.env.local' });
+
+export * from './types';
+
+// llama-text-embed-v2 produces 1024-dimensional vectors by default
+const DEFAULT_EMBEDDING_MODEL = 'llama-text-embed-v2';
+const DEFAULT_EMBEDDING_DIMENSION = 1024;
+
+let provider: EmbeddingProvider | null = null;
+
+function createEmbeddingProvider(): EmbeddingProvider {
+  const providerName = (process.env.EMBEDDING_PROVIDER || 'pinecone').toLowerCase();
+  const dimension = parseInt(process.env.EMBEDDING_DIMENSION || '', 10) || DEFAULT_EMBEDDING_DIMENSION;
+
+  switch (providerName) {
+    case 'pinecone':
+      return new PineconeEmbeddingProvider(process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL, dimension);
+    case 'local':
+      return new LocalEmbeddingProvider(dimension);
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${providerName}". Use pinecone or local.`);
+  }
+}
+
+/**
+ * Get the configured embedding provider (created once, on first use).
+ * EMBEDDING_PROVIDER=pinecone (default) | local
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    provider = createEmbeddingProvider();
+    logger.log(`[Embeddings] Using provider "${provider.name}" (model: ${provider.model}, dimension: ${provider.dimension})`);
+  }
+  return provider;
+}
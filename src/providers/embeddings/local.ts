@@ -0,0 +1,78 @@
+import { EmbeddingInputType, EmbeddingProvider } from './types';
+
+/**
+ * Offline, deterministic embedder based on hashed n-gram features.
+ * Words, word bigrams and character trigrams are hashed into `dimension` buckets
+ * (with a hashed sign so collisions cancel out on average), weighted by log term frequency
+ * and L2-normalized, so cosine similarity reflects lexical overlap.
+ * Good enough to exercise the full upload → chat flow without network access.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model = 'hashed-ngrams-v1';
+  readonly dimension: number;
+
+  constructor(dimension: number) {
+    this.dimension = dimension;
+  }
+
+  async embed(texts: string[], _inputType: EmbeddingInputType): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+    const counts = new Map<string, number>();
+
+    for (const feature of extractFeatures(text)) {
+      counts.set(feature, (counts.get(feature) || 0) + 1);
+    }
+
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature);
+      const bucket = hash % this.dimension;
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      vector[bucket] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
+
+function extractFeatures(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 0);
+
+  const features: string[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    features.push(`w:${word}`);
+
+    if (i > 0) {
+      features.push(`b:${words[i - 1]}_${word}`);
+    }
+
+    const padded = `#${word}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      features.push(`c:${padded.slice(j, j + 3)}`);
+    }
+  }
+
+  return features;
+}
+
+// 32-bit FNV-1a hash
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
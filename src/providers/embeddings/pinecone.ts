@@ -0,0 +1,38 @@
+import { getPineconeClient } from '../../config/pinecone';
+import { EmbeddingInputType, EmbeddingProvider } from './types';
+
+// Pinecone inference accepts at most 96 inputs per request
+const BATCH_SIZE = 90;
+
+/**
+ * Embeddings from Pinecone's hosted inference API.
+ */
+export class PineconeEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'pinecone';
+  readonly model: string;
+  readonly dimension: number;
+
+  constructor(model: string, dimension: number) {
+    this.model = model;
+    this.dimension = dimension;
+  }
+
+  async embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    const allEmbeddings: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const batch = texts.slice(i, i + BATCH_SIZE);
+      const result = await getPineconeClient().inference.embed(
+        this.model,
+        batch,
+        { inputType, truncate: 'END' }
+      );
+
+      // Cast to any to handle type mismatch with EmbeddingsList, assuming .data structure or array
+      const embeddings = (result as any).data || result;
+      allEmbeddings.push(...embeddings.map((e: any) => e.values));
+    }
+
+    return allEmbeddings;
+  }
+}
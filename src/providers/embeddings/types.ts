@@ -0,0 +1,14 @@
+export type EmbeddingInputType = 'query' | 'passage';
+
+/**
+ * Common interface for embedding backends.
+ * Every vector returned must have exactly `dimension` values, since all
+ * providers write to (and query) the same vector index.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimension: number;
+
+  embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]>;
+}
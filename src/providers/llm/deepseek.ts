@@ -0,0 +1,25 @@
+import { OpenAiCompatibleProvider } from './openaiCompatible';
+
+const DEFAULT_DEEPSEEK_API_URL = 'https://api.modelarts-maas.com/v2/chat/completions';
+const DEFAULT_DEEPSEEK_MODEL = 'deepseek-v3.1';
+
+/**
+ * DeepSeek served through Huawei ModelArts (OpenAI-compatible endpoint).
+ */
+export class DeepSeekProvider extends OpenAiCompatibleProvider {
+  constructor() {
+    const token = process.env.DEEPSEEK_TOKEN;
+
+    if (!token) {
+      throw new Error('Missing DEEPSEEK_TOKEN. Please check your .env.local file.');
+    }
+
+    super({
+      name: 'deepseek',
+      apiUrl: process.env.DEEPSEEK_API_URL || DEFAULT_DEEPSEEK_API_URL,
+      apiKey: token,
+      model: process.env.DEEPSEEK_MODEL || DEFAULT_DEEPSEEK_MODEL,
+      streamDefaultOptions: { seed: 42 },
+    });
+  }
+}
@@ -0,0 +1,48 @@
+import dotenv from 'dotenv';
+import logger from '../../utils/logger';
+import { LlmProvider } from './types';
+import { DeepSeekProvider } from './deepseek';
+import { OpenAiCompatibleProvider } from './openaiCompatible';
+import { MockLlmProvider } from './mock';
+
+dotenv.config({ path: '.env.local' });
+
+export * from './types';
+
+let provider: LlmProvider | null = null;
+
+function createLlmProvider(): LlmProvider {
+  const providerName = (process.env.LLM_PROVIDER || 'deepseek').toLowerCase();
+
+  switch (providerName) {
+    case 'deepseek':
+      return new DeepSeekProvider();
+    case 'openai': {
+      if (!process.env.OPENAI_API_URL) {
+        throw new Error('Missing OPENAI_API_URL. Please check your .env.local file.');
+      }
+      return new OpenAiCompatibleProvider({
+        name: 'openai',
+        apiUrl: process.env.OPENAI_API_URL,
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      });
+    }
+    case 'mock':
+      return new MockLlmProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}". Use deepseek, openai or mock.`);
+  }
+}
+
+/**
+ * Get the configured LLM provider (created once, on first use).
+ * LLM_PROVIDER=deepseek (default) | openai | mock
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    provider = createLlmProvider();
+    logger.log(`[LLM] Using provider "${provider.name}" (model: ${provider.model})`);
+  }
+  return provider;
+}
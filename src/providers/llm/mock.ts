@@ -0,0 +1,60 @@
+import logger from '../../utils/logger';
+import { ChatMessage, LlmProvider, LlmRequestOptions } from './types';
+
+const CONTEXT_MARKER = 'Context from documents:';
+
+/**
+ * Offline provider for local development and tests.
+ * Deterministic: answers with the first context passages it was given,
+ * or echoes the last quoted text of the prompt (so query rewriting is a no-op).
+ */
+export class MockLlmProvider implements LlmProvider {
+  readonly name = 'mock';
+  readonly model = 'mock';
+
+  private buildAnswer(messages: ChatMessage[]): string {
+    const lastUser = [...messages].reverse().find(message => message.role === 'user');
+    const prompt = lastUser?.content || '';
+
+    const contextStart = prompt.indexOf(CONTEXT_MARKER);
+    if (contextStart !== -1) {
+      const questionStart = prompt.lastIndexOf('\nQuestion:');
+      const context = prompt
+        .slice(contextStart + CONTEXT_MARKER.length, questionStart === -1 ? undefined : questionStart)
+        .trim();
+
+      if (!context) {
+        return '[mock] No relevant context was found for this question.';
+      }
+
+      const passages = context.split('\n\n').slice(0, 3).map(passage => `- ${passage.substring(0, 300)}`);
+      return `[mock] Based on the documents:\n${passages.join('\n')}`;
+    }
+
+    const quoted = prompt.match(/"([^"]+)"(?![\s\S]*")/);
+    return quoted ? quoted[1] : prompt;
+  }
+
+  async chat(messages: ChatMessage[], _options: LlmRequestOptions = {}): Promise<string> {
+    const answer = this.buildAnswer(messages);
+    logger.log('[LLM:mock] Response:', answer);
+    return answer;
+  }
+
+  async chatStream(
+    messages: ChatMessage[],
+    onChunk: (chunk: string) => void,
+    onDone?: (error?: Error) => void,
+    _options: LlmRequestOptions = {}
+  ): Promise<void> {
+    const words = this.buildAnswer(messages).split(/(\s+)/);
+
+    // Emit asynchronously, like a real stream
+    setImmediate(() => {
+      for (const word of words) {
+        if (word) onChunk(word);
+      }
+      if (onDone) onDone();
+    });
+  }
+}
@@ -0,0 +1,162 @@
+import axios from 'axios';
+import logger from '../../utils/logger';
+import { ChatMessage, LlmProvider, LlmRequestOptions } from './types';
+
+export interface OpenAiCompatibleConfig {
+  name?: string;
+  apiUrl: string; // Full chat completions URL, e.g. https://api.openai.com/v1/chat/completions
+  apiKey?: string;
+  model: string;
+  defaultOptions?: LlmRequestOptions;
+  streamDefaultOptions?: LlmRequestOptions;
+}
+
+/**
+ * Provider for any endpoint speaking the OpenAI chat completions protocol
+ * (OpenAI, DeepSeek, vLLM, Ollama, LM Studio...).
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  private readonly config: OpenAiCompatibleConfig;
+
+  constructor(config: OpenAiCompatibleConfig) {
+    this.config = config;
+    this.name = config.name || 'openai';
+    this.model = config.model;
+  }
+
+  private buildRequestBody(messages: ChatMessage[], options: LlmRequestOptions, stream: boolean) {
+    const merged: LlmRequestOptions = {
+      temperature: 0.7,
+      ...this.config.defaultOptions,
+      ...(stream ? this.config.streamDefaultOptions : {}),
+      ...options,
+    };
+
+    return {
+      model: this.model,
+      messages,
+      temperature: merged.temperature,
+      ...(merged.maxTokens !== undefined ? { max_tokens: merged.maxTokens } : {}),
+      ...(merged.seed !== undefined ? { seed: merged.seed } : {}),
+      stream,
+    };
+  }
+
+  private buildHeaders(stream: boolean): Record<string, string> {
+    return {
+      ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+      'Content-Type': 'application/json',
+      ...(stream ? { Accept: 'text/event-stream' } : {}),
+    };
+  }
+
+  async chat(messages: ChatMessage[], options: LlmRequestOptions = {}): Promise<string> {
+    try {
+      const requestBody = this.buildRequestBody(messages, options, false);
+      logger.log(`[LLM:${this.name}] Request:`, JSON.stringify(requestBody, null, 2));
+
+      const response = await axios.post(this.config.apiUrl, requestBody, {
+        headers: this.buildHeaders(false),
+      });
+
+      logger.log(`[LLM:${this.name}] Response Status:`, response.status);
+      logger.log(`[LLM:${this.name}] Response Data:`, JSON.stringify(response.data, null, 2));
+
+      return response.data.choices[0]?.message?.content || `No response from ${this.name}`;
+    } catch (error: any) {
+      logger.error(`[LLM:${this.name}] API Error:`, error.response?.data || error.message);
+      throw new Error(`${this.name} API error: ${error.response?.data?.error?.message || error.message}`);
+    }
+  }
+
+  async chatStream(
+    messages: ChatMessage[],
+    onChunk: (chunk: string) => void,
+    onDone?: (error?: Error) => void,
+    options: LlmRequestOptions = {}
+  ): Promise<void> {
+    try {
+      const requestBody = this.buildRequestBody(messages, options, true);
+      logger.log(`[LLM:${this.name}] Stream Request:`, JSON.stringify(requestBody, null, 2));
+
+      const response = await axios.post(this.config.apiUrl, requestBody, {
+        headers: this.buildHeaders(true),
+        responseType: 'stream',
+      });
+
+      logger.log(`[LLM:${this.name}] Stream Response Status:`, response.status);
+
+      const stream = response.data;
+      let buffer = '';
+      let fullContent = '';
+      let isFinished = false;
+
+      const safeOnDone = (error?: Error) => {
+        if (!isFinished) {
+          isFinished = true;
+          if (onDone) onDone(error);
+        }
+      };
+
+      // SSE events are separated by newlines; each payload line starts with "data:"
+      const processLine = (rawLine: string) => {
+        const line = rawLine.trim();
+        if (!line.startsWith('data:')) return;
+
+        const payload = line.slice(5).trim();
+        if (!payload) return;
+
+        if (payload === '[DONE]') {
+          safeOnDone();
+          return;
+        }
+
+        let parsed: any;
+        try {
+          parsed = JSON.parse(payload);
+        } catch (e) {
+          logger.warn(`[LLM:${this.name}] Failed to parse stream chunk`, payload);
+          return;
+        }
+
+        for (const choice of parsed?.choices || []) {
+          const content = choice?.delta?.content;
+          if (content) {
+            fullContent += content;
+            onChunk(content);
+          }
+        }
+      };
+
+      stream.on('data', (chunk: any) => {
+        try {
+          buffer += chunk.toString();
+          let newline = buffer.indexOf('\n');
+          while (newline !== -1) {
+            processLine(buffer.slice(0, newline));
+            buffer = buffer.slice(newline + 1);
+            newline = buffer.indexOf('\n');
+          }
+        } catch (e) {
+          logger.warn(`[LLM:${this.name}] Error processing stream chunk`, e);
+        }
+      });
+
+      stream.on('end', () => {
+        if (buffer) processLine(buffer);
+        logger.log(`[LLM:${this.name}] Stream Full Response (Accumulated):`, fullContent);
+        safeOnDone();
+      });
+
+      stream.on('error', (err: any) => {
+        logger.error(`[LLM:${this.name}] Stream error:`, err);
+        safeOnDone(err instanceof Error ? err : new Error(String(err)));
+      });
+    } catch (error: any) {
+      logger.error(`[LLM:${this.name}] Streaming error:`, error.response?.data || error.message);
+      throw new Error(`${this.name} streaming error: ${error.response?.data?.error?.message || error.message}`);
+    }
+  }
+}
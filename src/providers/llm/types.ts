@@ -0,0 +1,30 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequestOptions {
+  temperature?: number;
+  maxTokens?: number;
+  seed?: number;
+}
+
+/**
+ * Common interface for chat-completion backends.
+ * Implementations are picked by `getLlmProvider()` from the LLM_PROVIDER setting.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+
+  chat(messages: ChatMessage[], options?: LlmRequestOptions): Promise<string>;
+
+  // Calls `onChunk` for each content delta and `onDone` exactly once when the stream ends,
+  // with the error when it was cut short (the answer received so far is then incomplete).
+  chatStream(
+    messages: ChatMessage[],
+    onChunk: (chunk: string) => void,
+    onDone?: (error?: Error) => void,
+    options?: LlmRequestOptions
+  ): Promise<void>;
+}
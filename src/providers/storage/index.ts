@@ -0,0 +1,41 @@
+import dotenv from 'dotenv';
+import path from 'path';
+import logger from '../../utils/logger';
+import { StorageProvider } from './types';
+import { LocalStorageProvider } from './local';
+
+dotenv.config({ path: '.env.local' });
+
+export * from './types';
+
+let provider: StorageProvider | null = null;
+
+function createStorageProvider(): StorageProvider {
+  const providerName = (process.env.STORAGE_PROVIDER || 'supabase').toLowerCase();
+
+  switch (providerName) {
+    case 'supabase': {
+      // Loaded lazily so the local backend never requires Supabase credentials
+      const { SupabaseStorageProvider } = require('./supabase') as typeof import('./supabase');
+      return new SupabaseStorageProvider();
+    }
+    case 'local':
+      return new LocalStorageProvider(
+        process.env.STORAGE_DIR || path.join(process.cwd(), '.local-data', 'storage')
+      );
+    default:
+      throw new Error(`Unknown STORAGE_PROVIDER "${providerName}". Use supabase or local.`);
+  }
+}
+
+/**
+ * Get the configured object storage (created once, on first use).
+ * STORAGE_PROVIDER=supabase (default) | local
+ */
+export function getStorageProvider(): StorageProvider {
+  if (!provider) {
+    provider = createStorageProvider();
+    logger.log(`[Storage] Using "${provider.name}" storage provider`);
+  }
+  return provider;
+}
@@ -0,0 +1,133 @@
+import * as fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { getContentType } from '../../utils/contentTypes';
+import { ByteRange, FOLDER_PLACEHOLDER, ListOptions, PutOptions, StorageObject, StorageObjectNotFoundError, StorageProvider } from './types';
+
+/**
+ * Object storage on the local filesystem, rooted at a single directory.
+ * Storage paths map 1:1 to relative file paths.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local';
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  // Resolve a storage path inside the root directory, rejecting traversal outside of it
+  private resolve(storagePath: string): string {
+    const resolved = path.resolve(this.rootDir, storagePath.replace(/^\/+/, ''));
+    if (resolved !== this.rootDir && !resolved.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage path: ${storagePath}`);
+    }
+    return resolved;
+  }
+
+  private toStorageObject(storagePath: string, stats: { size: number; birthtime: Date; mtime: Date }): StorageObject {
+    return {
+      path: storagePath,
+      name: path.posix.basename(storagePath),
+      size: stats.size,
+      contentType: getContentType(storagePath),
+      createdAt: stats.birthtime.toISOString(),
+      updatedAt: stats.mtime.toISOString(),
+    };
+  }
+
+  async put(storagePath: string, data: Buffer, options: PutOptions = {}): Promise<void> {
+    const filePath = this.resolve(storagePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    try {
+      // 'wx' fails if the file already exists, matching Supabase's upsert: false
+      await fs.writeFile(filePath, data, { flag: options.upsert ? 'w' : 'wx' });
+    } catch (error: any) {
+      if (error.code === 'EEXIST') {
+        throw new Error(`Local storage upload error: ${storagePath} already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async get(storagePath: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(storagePath));
+    } catch (error: any) {
+      if (error.code === 'ENOENT' || error.code === 'EISDIR') {
+        throw new StorageObjectNotFoundError(storagePath);
+      }
+      throw error;
+    }
+  }
+
+  async createReadStream(storagePath: string, range?: ByteRange): Promise<Readable> {
+    if (!(await this.stat(storagePath))) {
+      throw new StorageObjectNotFoundError(storagePath);
+    }
+    return createReadStream(this.resolve(storagePath), range && { start: range.start, end: range.end });
+  }
+
+  async list(prefix: string = '', options: ListOptions = {}): Promise<StorageObject[]> {
+    const folder = prefix.replace(/^\/+|\/+$/g, '');
+    const objects: StorageObject[] = [];
+
+    let entries: import('fs').Dirent[];
+    try {
+      entries = await fs.readdir(this.resolve(folder), { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const entryPath = folder ? `${folder}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (options.recursive) {
+          objects.push(...await this.list(entryPath, options));
+        }
+        continue;
+      }
+      if (entry.name === FOLDER_PLACEHOLDER && !options.includePlaceholders) continue;
+
+      const stats = await fs.stat(this.resolve(entryPath));
+      objects.push(this.toStorageObject(entryPath, stats));
+    }
+
+    return objects;
+  }
+
+  async delete(paths: string[]): Promise<void> {
+    for (const storagePath of paths) {
+      await fs.rm(this.resolve(storagePath), { force: true });
+    }
+  }
+
+  async move(fromPath: string, toPath: string): Promise<void> {
+    const source = this.resolve(fromPath);
+    const destination = this.resolve(toPath);
+
+    if (!(await this.stat(fromPath))) {
+      throw new StorageObjectNotFoundError(fromPath);
+    }
+    if (await this.stat(toPath)) {
+      throw new Error(`Local storage move error: ${toPath} already exists`);
+    }
+
+    await fs.mkdir(path.dirname(destination), { recursive: true });
+    await fs.rename(source, destination);
+  }
+
+  async stat(storagePath: string): Promise<StorageObject | null> {
+    try {
+      const stats = await fs.stat(this.resolve(storagePath));
+      return stats.isFile() ? this.toStorageObject(storagePath, stats) : null;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
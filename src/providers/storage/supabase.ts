@@ -0,0 +1,137 @@
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
+import { supabaseAdmin, BUCKET_NAME } from '../../config/supabase';
+import { ByteRange, FOLDER_PLACEHOLDER, ListOptions, PutOptions, StorageObject, StorageObjectNotFoundError, StorageProvider } from './types';
+
+// Supabase lists at most this many entries per request
+const LIST_PAGE_SIZE = 1000;
+// Lifetime of the internal signed URLs used to stream objects
+const STREAM_URL_EXPIRY_SECONDS = 60;
+
+/**
+ * Object storage backed by a Supabase storage bucket.
+ */
+export class SupabaseStorageProvider implements StorageProvider {
+  readonly name = 'supabase';
+
+  private bucket() {
+    return supabaseAdmin.storage.from(BUCKET_NAME);
+  }
+
+  async put(path: string, data: Buffer, options: PutOptions = {}): Promise<void> {
+    const { error } = await this.bucket().upload(path, data, {
+      contentType: options.contentType,
+      upsert: options.upsert ?? false,
+    });
+
+    if (error) {
+      throw new Error(`Supabase upload error: ${error.message}`);
+    }
+  }
+
+  async get(path: string): Promise<Buffer> {
+    const { data, error } = await this.bucket().download(path);
+
+    if (error || !data) {
+      throw new StorageObjectNotFoundError(path);
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async createReadStream(path: string, range?: ByteRange): Promise<Readable> {
+    // The storage API serves Range requests on signed URLs, so only the requested bytes are transferred
+    const { data, error } = await this.bucket().createSignedUrl(path, STREAM_URL_EXPIRY_SECONDS);
+    if (error || !data) {
+      throw new StorageObjectNotFoundError(path);
+    }
+
+    const response = await fetch(data.signedUrl, {
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : {},
+    });
+    if (response.status === 404 || response.status === 400) {
+      throw new StorageObjectNotFoundError(path);
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`Supabase download error: ${response.status} ${response.statusText}`);
+    }
+
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+  }
+
+  async list(prefix: string = '', options: ListOptions = {}): Promise<StorageObject[]> {
+    const folder = prefix.replace(/^\/+|\/+$/g, '');
+    const objects: StorageObject[] = [];
+    let offset = 0;
+
+    while (true) {
+      const { data, error } = await this.bucket().list(folder, { limit: LIST_PAGE_SIZE, offset });
+
+      if (error) {
+        throw new Error(`Supabase list error: ${error.message}`);
+      }
+
+      for (const entry of data || []) {
+        const entryPath = folder ? `${folder}/${entry.name}` : entry.name;
+
+        // Folders are returned as entries without an id
+        if (!entry.id) {
+          if (options.recursive) {
+            objects.push(...await this.list(entryPath, options));
+          }
+          continue;
+        }
+        if (entry.name === FOLDER_PLACEHOLDER && !options.includePlaceholders) continue;
+
+        objects.push({
+          path: entryPath,
+          name: entry.name,
+          size: entry.metadata?.size,
+          contentType: entry.metadata?.mimetype,
+          createdAt: entry.created_at,
+          updatedAt: entry.updated_at,
+        });
+      }
+
+      if (!data || data.length < LIST_PAGE_SIZE) break;
+      offset += LIST_PAGE_SIZE;
+    }
+
+    return objects;
+  }
+
+  async delete(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+
+    const { error } = await this.bucket().remove(paths);
+
+    if (error) {
+      throw new Error(`Supabase delete error: ${error.message}`);
+    }
+  }
+
+  async move(fromPath: string, toPath: string): Promise<void> {
+    const { error } = await this.bucket().move(fromPath, toPath);
+
+    if (error) {
+      throw new Error(`Supabase move error: ${error.message}`);
+    }
+  }
+
+  async stat(path: string): Promise<StorageObject | null> {
+    const { data, error } = await this.bucket().info(path);
+
+    if (error || !data) {
+      return null;
+    }
+
+    return {
+      path,
+      name: path.split('/').pop() || path,
+      size: data.size,
+      contentType: data.contentType,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { Readable } from 'stream';
+
+export interface StorageObject {
+  path: string; // Full path inside the bucket, e.g. folder/1700000000000-file.pdf
+  name: string; // Last path segment
+  size?: number;
+  contentType?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Byte range of an object, both ends inclusive (as in HTTP Range headers)
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface PutOptions {
+  contentType?: string;
+  upsert?: boolean;
+}
+
+// Object storage has no real folders: an empty folder is kept alive by this placeholder
+// object (the name Supabase's dashboard uses)
+export const FOLDER_PLACEHOLDER = '.emptyFolderPlaceholder';
+
+export interface ListOptions {
+  // Include objects in nested folders (default: only direct children of the prefix)
+  recursive?: boolean;
+  // Include folder placeholder objects (default: skipped)
+  includePlaceholders?: boolean;
+}
+
+/**
+ * Common interface for document object storage.
+ * Implementations are picked by `getStorageProvider()` from the STORAGE_PROVIDER setting.
+ */
+export interface StorageProvider {
+  readonly name: string;
+
+  put(path: string, data: Buffer, options?: PutOptions): Promise<void>;
+  get(path: string): Promise<Buffer>;
+  // Stream an object, or part of it, without buffering it in memory
+  createReadStream(path: string, range?: ByteRange): Promise<Readable>;
+  // Prefix is a folder path ('' for the bucket root); only files are returned
+  list(prefix?: string, options?: ListOptions): Promise<StorageObject[]>;
+  delete(paths: string[]): Promise<void>;
+  // Rename an object; fails if the source is missing or the destination exists
+  move(fromPath: string, toPath: string): Promise<void>;
+  // Returns null when the object does not exist
+  stat(path: string): Promise<StorageObject | null>;
+}
+
+export class StorageObjectNotFoundError extends Error {
+  constructor(path: string) {
+    super(`Object not found: ${path}`);
+    this.name = 'StorageObjectNotFoundError';
+  }
+}
@@ -0,0 +1,65 @@
+import { MetadataFilter, VectorMetadata, VectorMetadataValue } from './types';
+
+type Comparable = string | number | boolean;
+
+function compare(value: VectorMetadataValue | undefined, operator: string, operand: any): boolean {
+  // Array metadata matches when any element matches (Pinecone semantics for $eq/$in)
+  if (Array.isArray(value) && operator !== '$exists') {
+    if (operator === '$ne' || operator === '$nin') {
+      return value.every(item => compare(item, operator, operand));
+    }
+    return value.some(item => compare(item, operator, operand));
+  }
+
+  const current = value as Comparable | undefined;
+
+  switch (operator) {
+    case '$eq':
+      return current === operand;
+    case '$ne':
+      return current !== operand;
+    case '$in':
+      return Array.isArray(operand) && operand.includes(current);
+    case '$nin':
+      return !Array.isArray(operand) || !operand.includes(current);
+    case '$gt':
+      return current !== undefined && current > operand;
+    case '$gte':
+      return current !== undefined && current >= operand;
+    case '$lt':
+      return current !== undefined && current < operand;
+    case '$lte':
+      return current !== undefined && current <= operand;
+    case '$exists':
+      return (value !== undefined) === Boolean(operand);
+    default:
+      throw new Error(`Unsupported metadata filter operator: ${operator}`);
+  }
+}
+
+/**
+ * Evaluate a Pinecone-style metadata filter against a record's metadata.
+ * Used by the local vector store and by any in-process index that must honour the same filters.
+ */
+export function matchesFilter(metadata: VectorMetadata | undefined, filter: MetadataFilter | undefined): boolean {
+  if (!filter || Object.keys(filter).length === 0) return true;
+  const fields = metadata || {};
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as MetadataFilter[]).every(sub => matchesFilter(fields, sub));
+    }
+    if (key === '$or') {
+      return (condition as MetadataFilter[]).some(sub => matchesFilter(fields, sub));
+    }
+
+    const value = fields[key];
+
+    // Shorthand { field: value } means equality
+    if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+      return compare(value, '$eq', condition);
+    }
+
+    return Object.entries(condition).every(([operator, operand]) => compare(value, operator, operand));
+  });
+}
@@ -0,0 +1,40 @@
+import dotenv from 'dotenv';
+import path from 'path';
+import logger from '../../utils/logger';
+import { VectorStore } from './types';
+import { PineconeVectorStore } from './pinecone';
+import { LocalVectorStore } from './local';
+
+dotenv.config({ path: '.env.local' });
+
+export * from './types';
+export { matchesFilter } from './filter';
+
+let store: VectorStore | null = null;
+
+function createVectorStore(): VectorStore {
+  const storeName = (process.env.VECTOR_STORE || 'pinecone').toLowerCase();
+
+  switch (storeName) {
+    case 'pinecone':
+      return new PineconeVectorStore();
+    case 'local':
+      return new LocalVectorStore(
+        process.env.VECTOR_STORE_PATH || path.join(process.cwd(), '.local-data', 'vectors.json')
+      );
+    default:
+      throw new Error(`Unknown VECTOR_STORE "${storeName}". Use pinecone or local.`);
+  }
+}
+
+/**
+ * Get the configured vector store (created once, on first use).
+ * VECTOR_STORE=pinecone (default) | local
+ */
+export function getVectorStore(): VectorStore {
+  if (!store) {
+    store = createVectorStore();
+    logger.log(`[VectorStore] Using "${store.name}" vector store`);
+  }
+  return store;
+}
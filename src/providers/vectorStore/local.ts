@@ -0,0 +1,130 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import logger from '../../utils/logger';
+import { matchesFilter } from './filter';
+import { MetadataFilter, VectorMatch, VectorQuery, VectorQueryResult, VectorRecord, VectorStore } from './types';
+
+/**
+ * Embedded vector store persisted to a single JSON file.
+ * Queries are a brute-force cosine scan, which is fine for local development,
+ * evaluation runs and small on-prem libraries (tens of thousands of chunks).
+ */
+export class LocalVectorStore implements VectorStore {
+  readonly name = 'local';
+  private readonly filePath: string;
+  private records: Map<string, VectorRecord> | null = null;
+  private loading: Promise<Map<string, VectorRecord>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  private async load(): Promise<Map<string, VectorRecord>> {
+    if (this.records) return this.records;
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        const records = new Map<string, VectorRecord>();
+        try {
+          const content = await fs.readFile(this.filePath, 'utf-8');
+          for (const record of JSON.parse(content) as VectorRecord[]) {
+            records.set(record.id, record);
+          }
+          logger.log(`[VectorStore:local] Loaded ${records.size} vectors from ${this.filePath}`);
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') throw error;
+        }
+        this.records = records;
+        return records;
+      })();
+    }
+
+    return this.loading;
+  }
+
+  // Writes are serialized so concurrent mutations never interleave on disk
+  private persist(): Promise<void> {
+    this.writeQueue = this.writeQueue.then(async () => {
+      const records = Array.from((this.records || new Map()).values());
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(records));
+      await fs.rename(tempPath, this.filePath);
+    });
+    return this.writeQueue;
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    const store = await this.load();
+    for (const record of records) {
+      store.set(record.id, { id: record.id, values: record.values, metadata: record.metadata || {} });
+    }
+    await this.persist();
+  }
+
+  async query(query: VectorQuery): Promise<VectorQueryResult> {
+    const store = await this.load();
+    const scored: VectorMatch[] = [];
+
+    for (const record of store.values()) {
+      if (!matchesFilter(record.metadata, query.filter)) continue;
+      scored.push({
+        id: record.id,
+        score: cosineSimilarity(query.vector, record.values),
+        values: query.includeValues ? record.values : undefined,
+        metadata: query.includeMetadata === false ? undefined : record.metadata,
+      });
+    }
+
+    scored.sort((a, b) => (b.score || 0) - (a.score || 0));
+    return { matches: scored.slice(0, query.topK) };
+  }
+
+  async fetch(ids: string[]): Promise<VectorRecord[]> {
+    const store = await this.load();
+    return ids
+      .map(id => store.get(id))
+      .filter((record): record is VectorRecord => record !== undefined);
+  }
+
+  async deleteByFilter(filter: MetadataFilter): Promise<void> {
+    const store = await this.load();
+    for (const record of Array.from(store.values())) {
+      if (matchesFilter(record.metadata, filter)) {
+        store.delete(record.id);
+      }
+    }
+    await this.persist();
+  }
+
+  async deleteByIds(ids: string[]): Promise<void> {
+    const store = await this.load();
+    for (const id of ids) {
+      store.delete(id);
+    }
+    await this.persist();
+  }
+
+  async listIds(prefix: string = ''): Promise<string[]> {
+    const store = await this.load();
+    return Array.from(store.keys()).filter(id => id.startsWith(prefix));
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator === 0 ? 0 : dotProduct / denominator;
+}
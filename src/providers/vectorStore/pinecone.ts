@@ -0,0 +1,83 @@
+import { getPineconeIndex } from '../../config/pinecone';
+import { MetadataFilter, VectorQuery, VectorQueryResult, VectorRecord, VectorStore } from './types';
+
+// Pinecone accepts at most 1000 ids per delete request
+const DELETE_BATCH_SIZE = 1000;
+// Fetch ids travel in the query string, so keep batches small
+const FETCH_BATCH_SIZE = 100;
+
+/**
+ * Vector store backed by a Pinecone index.
+ */
+export class PineconeVectorStore implements VectorStore {
+  readonly name = 'pinecone';
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const index = await getPineconeIndex();
+    await index.upsert(records);
+  }
+
+  async query(query: VectorQuery): Promise<VectorQueryResult> {
+    const index = await getPineconeIndex();
+    const results = await index.query({
+      vector: query.vector,
+      topK: query.topK,
+      filter: query.filter,
+      includeMetadata: query.includeMetadata ?? true,
+      includeValues: query.includeValues ?? false,
+    });
+
+    return {
+      matches: (results.matches || []).map(match => ({
+        id: match.id,
+        score: match.score,
+        values: match.values && match.values.length > 0 ? match.values : undefined,
+        metadata: match.metadata,
+      })),
+    };
+  }
+
+  async fetch(ids: string[]): Promise<VectorRecord[]> {
+    const index = await getPineconeIndex();
+    const records: VectorRecord[] = [];
+
+    for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+      const response = await index.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+      for (const record of Object.values(response.records || {})) {
+        records.push({ id: record.id, values: record.values || [], metadata: record.metadata });
+      }
+    }
+
+    return records;
+  }
+
+  // Note: deleting by metadata filter is only supported on pod-based indexes
+  async deleteByFilter(filter: MetadataFilter): Promise<void> {
+    const index = await getPineconeIndex();
+    await index.deleteMany(filter);
+  }
+
+  async deleteByIds(ids: string[]): Promise<void> {
+    const index = await getPineconeIndex();
+    for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+      await index.deleteMany(ids.slice(i, i + DELETE_BATCH_SIZE));
+    }
+  }
+
+  async listIds(prefix?: string): Promise<string[]> {
+    const index = await getPineconeIndex();
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+
+    do {
+      const page = await index.listPaginated({ prefix, paginationToken });
+      for (const vector of page.vectors || []) {
+        if (vector.id) ids.push(vector.id);
+      }
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+
+    return ids;
+  }
+}
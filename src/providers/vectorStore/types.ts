@@ -0,0 +1,51 @@
+export type VectorMetadataValue = string | number | boolean | string[];
+export type VectorMetadata = Record<string, VectorMetadataValue>;
+
+/**
+ * Metadata filter using Pinecone's filter syntax:
+ * { folder: 'entreprise' }, { folder: { $in: ['a', 'b'] } }, { uploadedAt: { $gte: 1700000000000 } },
+ * { $and: [...] }, { $or: [...] }.
+ */
+export type MetadataFilter = Record<string, any>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata?: VectorMetadata;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: MetadataFilter;
+  includeMetadata?: boolean;
+  includeValues?: boolean;
+}
+
+export interface VectorMatch {
+  id: string;
+  score?: number;
+  values?: number[];
+  metadata?: VectorMetadata;
+}
+
+export interface VectorQueryResult {
+  matches: VectorMatch[];
+}
+
+/**
+ * Common interface for vector databases.
+ * Implementations are picked by `getVectorStore()` from the VECTOR_STORE setting.
+ */
+export interface VectorStore {
+  readonly name: string;
+
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(query: VectorQuery): Promise<VectorQueryResult>;
+  // Missing ids are simply absent from the result
+  fetch(ids: string[]): Promise<VectorRecord[]>;
+  deleteByFilter(filter: MetadataFilter): Promise<void>;
+  deleteByIds(ids: string[]): Promise<void>;
+  // Ids are returned in no particular order; omit the prefix to list everything
+  listIds(prefix?: string): Promise<string[]>;
+}
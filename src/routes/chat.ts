@@ -1,33 +1,118 @@
-import express, { Request, Response, Router } from 'express';
-import { chatWithDocuments, chatWithDocumentsStream } from '../services/chatService';
+import express, { Response, Router } from 'express';
+import { chatWithDocuments, chatWithDocumentsStream, ChatOptions } from '../services/chatService';
+import { DEFAULT_CHAT_TOP_K } from '../services/retrievalService';
+import { loadRoomHistory, normalizeHistory, RoomNotFoundError } from '../services/conversationService';
+import { optionalAuthenticateUser, AuthenticatedRequest } from '../middleware/auth';
+import { ChatMessage } from '../providers/llm';
+import { parseRetrievalFilters, InvalidFilterError, RetrievalFilters } from '../utils/metadataFilter';
+import { isRerankerName, RERANKER_NAMES } from '../utils/rerankStrategies';
+import { parseDiversityOptions, InvalidDiversityOptionsError, DiversityConfig } from '../utils/diversity';
+import { parseExpansionOptions, InvalidExpansionOptionsError, ExpansionConfig } from '../utils/chunkExpansion';
 import logger from '../utils/logger';
 
 const router: Router = express.Router();
 
-router.post('/', async (req: Request, res: Response) => {
+/**
+ * POST /api/chat
+ * Body: { "question": "...", "topK": 3, "roomId": "...", "history": [{ "role": "user", "content": "..." }],
+ *         "filters": { "folder": "entreprise", "fileType": ["pdf"], "uploadedAfter": "2024-01-01" }, "hybrid": true,
+ *         "reranker": "hybrid" | "llm-judge" | "cross-encoder",
+ *         "expansion": { "mode": "neighbors" | "parent" | "none", "window": 1, "parentSize": 4 } }
+ * `roomId` requires a Bearer token; it loads the earlier turns of that room and appends
+ * the new turn to it (the response and the final SSE `done` event carry its `messageId`).
+ * A streamed answer cut short by an LLM error ends with `partial: true` and is not stored.
+ * `history` can be sent instead by clients that keep the conversation themselves.
+ * Sources carry signed `downloadUrl` links only for signed-in callers.
+ */
+router.post('/', optionalAuthenticateUser, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { question, topK } = req.body;
+    const { question, topK, roomId, history, hybrid, reranker, contextBudget } = req.body;
 
     if (!question || typeof question !== 'string') {
       return res.status(400).json({ error: 'Question is required and must be a string' });
     }
 
+    if (hybrid !== undefined && typeof hybrid !== 'boolean') {
+      return res.status(400).json({ error: 'Hybrid must be a boolean' });
+    }
+
+    if (reranker !== undefined && !isRerankerName(reranker)) {
+      return res.status(400).json({ error: `Reranker must be one of: ${RERANKER_NAMES.join(', ')}` });
+    }
+
+    if (contextBudget !== undefined && (!Number.isInteger(contextBudget) || contextBudget < 100)) {
+      return res.status(400).json({ error: 'Context budget must be an integer of at least 100 tokens' });
+    }
+
+    if (history !== undefined && !Array.isArray(history)) {
+      return res.status(400).json({ error: 'History must be an array of { role, content } messages' });
+    }
+
+    let filters: RetrievalFilters | undefined;
+    let diversity: Partial<DiversityConfig> | undefined;
+    let expansion: Partial<ExpansionConfig> | undefined;
+    try {
+      filters = parseRetrievalFilters(req.body.filters);
+      diversity = parseDiversityOptions(req.body.diversity);
+      expansion = parseExpansionOptions(req.body.expansion);
+    } catch (error) {
+      if (
+        error instanceof InvalidFilterError ||
+        error instanceof InvalidDiversityOptionsError ||
+        error instanceof InvalidExpansionOptionsError
+      ) {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    let conversation: ChatMessage[] = normalizeHistory(history);
+    let room: ChatOptions['room'];
+
+    if (roomId) {
+      if (!req.user) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required to use a room. Please provide a valid access token.',
+        });
+      }
+
+      try {
+        conversation = await loadRoomHistory(String(roomId), req.user.id);
+        room = { id: String(roomId), userId: req.user.id };
+      } catch (error) {
+        if (error instanceof RoomNotFoundError) {
+          return res.status(404).json({
+            success: false,
+            error: 'Room not found or access denied',
+          });
+        }
+        throw error;
+      }
+    }
+
     // If client accepts event-stream (streaming), use streaming handler
     const accept = req.headers['accept'] || '';
     const wantsStream = typeof accept === 'string' && accept.includes('text/event-stream');
 
+    const options: ChatOptions = {
+      history: conversation, room, filters, hybrid, reranker, diversity, expansion, contextBudget,
+      citationLinks: !!req.user,
+    };
+
     if (wantsStream || req.query.stream === 'true') {
       // Use streaming path
-      await chatWithDocumentsStream(question, res, topK || 3);
+      await chatWithDocumentsStream(question, res, topK || DEFAULT_CHAT_TOP_K, options);
       return;
     }
 
-    const result = await chatWithDocuments(question, topK || 3);
+    const result = await chatWithDocuments(question, topK || DEFAULT_CHAT_TOP_K, options);
 
     res.json({
       success: true,
       answer: result.answer,
       sources: result.sources,
+      messageId: result.messageId,
     });
   } catch (error) {
     logger.error('Chat route error:', error);
@@ -39,4 +124,3 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 export default router;
-
@@ -0,0 +1,271 @@
+import express, { Request, Response, Router } from 'express';
+import {
+  deleteDocument, DocumentNotFoundError, InvalidStoragePathError, DeleteDocumentResult
+} from '../services/documentService';
+import {
+  getDocumentHistory, rollbackToVersion, VersionAlreadyActiveError, VersionNotFoundError, VersionNotRestorableError
+} from '../services/versionService';
+import { getDocumentRecord, listDocuments, InvalidDocumentQueryError } from '../services/documentRegistryService';
+import {
+  dryRunChunking, getIndexedChunks, parseChunkerOptions, InvalidChunkerOptionsError
+} from '../services/chunkInspectorService';
+import { StorageObjectNotFoundError } from '../providers/storage';
+import { DocumentParseError } from '../utils/documentParser';
+import logger from '../utils/logger';
+
+const router: Router = express.Router();
+
+const MAX_BULK_DELETE = 100;
+
+/**
+ * GET /api/documents?folder=entreprise&recursive=true&status=active&search=offre&sortBy=size&order=desc&page=2&pageSize=50
+ * List document records (one per uploaded file version). Filters: folder (recursive=true
+ * includes subfolders), status (comma-separated: processing, active, superseded, failed;
+ * all but superseded by default), fileType, uploadedBy (user id), search (in the file name),
+ * createdAfter/createdBefore (ISO dates). Sort by createdAt (default), updatedAt, fileName,
+ * size, pageCount or chunksCount; order asc or desc (default). page and pageSize (20 by default, max 100).
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const result = await listDocuments(req.query);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof InvalidDocumentQueryError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    logger.error('List documents route error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
+/**
+ * POST /api/documents/bulk-delete
+ * Body: { "storagePaths": ["entreprise/1700000000000-offres.pdf", ...] }
+ * Deletes each document like DELETE /api/documents/:storagePath and reports a result per path.
+ */
+router.post('/bulk-delete', async (req: Request, res: Response) => {
+  try {
+    const { storagePaths } = req.body;
+
+    if (!Array.isArray(storagePaths) || storagePaths.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'storagePaths must be a non-empty array of storage paths',
+      });
+    }
+
+    if (storagePaths.length > MAX_BULK_DELETE) {
+      return res.status(400).json({
+        success: false,
+        error: `At most ${MAX_BULK_DELETE} documents can be deleted per request`,
+      });
+    }
+
+    const results: Array<{ storagePath: string; success: boolean; error?: string } & Partial<DeleteDocumentResult>> = [];
+
+    // Sequential on purpose: each deletion rewrites the keyword index file
+    for (const storagePath of new Set<string>(storagePaths)) {
+      try {
+        const result = await deleteDocument(storagePath);
+        results.push({ success: true, ...result });
+      } catch (error) {
+        if (!(error instanceof DocumentNotFoundError || error instanceof InvalidStoragePathError)) {
+          logger.error(`Bulk delete error for ${storagePath}:`, error);
+        }
+        results.push({
+          storagePath: String(storagePath),
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const deleted = results.filter(result => result.success).length;
+    res.json({
+      success: deleted === results.length,
+      message: `Deleted ${deleted} of ${results.length} documents`,
+      results,
+    });
+  } catch (error) {
+    logger.error('Bulk delete route error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
+/**
+ * GET /api/documents/versions?documentKey=entreprise/offres.pdf
+ * Version history of a document (folder/file name as uploaded), newest first.
+ * Each version has its storage path, content hash, status (active/superseded) and
+ * a summary of the lines added and removed compared with the version it replaced.
+ */
+router.get('/versions', async (req: Request, res: Response) => {
+  try {
+    const { documentKey } = req.query;
+
+    if (typeof documentKey !== 'string' || !documentKey.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'documentKey query parameter is required',
+      });
+    }
+
+    const versions = await getDocumentHistory(documentKey.trim());
+    if (versions.length === 0) {
+      return res.status(404).json({ success: false, error: `No versions found for ${documentKey}` });
+    }
+
+    res.json({
+      success: true,
+      documentKey: documentKey.trim(),
+      activeVersion: versions.find(version => version.status === 'active')?.version ?? null,
+      versions,
+    });
+  } catch (error) {
+    logger.error('Document versions route error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
+/**
+ * POST /api/documents/versions/:id/rollback
+ * Make an earlier version active again: it is re-indexed from its stored file and
+ * the current version is retired (its file is kept, so the rollback can be undone).
+ */
+router.post('/versions/:id/rollback', async (req: Request, res: Response) => {
+  try {
+    const { restored, retired } = await rollbackToVersion(req.params.id);
+
+    res.json({
+      success: true,
+      message: `Rolled back ${restored.documentKey} to version ${restored.version}`,
+      restored,
+      retired,
+    });
+  } catch (error) {
+    if (error instanceof VersionNotFoundError) {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error instanceof VersionAlreadyActiveError || error instanceof VersionNotRestorableError) {
+      return res.status(409).json({ success: false, error: error.message });
+    }
+    logger.error('Rollback route error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
+/**
+ * GET /api/documents/:id
+ * One document record by id.
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const document = await getDocumentRecord(req.params.id);
+    if (!document) {
+      return res.status(404).json({ success: false, error: `Document not found: ${req.params.id}` });
+    }
+    res.json({ success: true, document });
+  } catch (error) {
+    logger.error('Get document route error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
+/**
+ * GET /api/documents/:id/chunks
+ * The chunks of a document as indexed in the vector store, in order: chunkIndex,
+ * lineNumber, text, length and the rest of the vector metadata. Only the active
+ * version of a document has chunks.
+ */
+router.get('/:id/chunks', async (req: Request, res: Response) => {
+  try {
+    const { document, chunks } = await getIndexedChunks(req.params.id);
+    res.json({ success: true, document, count: chunks.length, chunks });
+  } catch (error) {
+    if (error instanceof VersionNotFoundError) {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    logger.error('Document chunks route error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
+/**
+ * GET /api/documents/:id/chunks/dry-run?chunkSize=500&overlap=50
+ * Parse and chunk the stored file again without indexing anything, and compare the
+ * chunks with the indexed ones. chunkSize and overlap default to the chunker's settings.
+ */
+router.get('/:id/chunks/dry-run', async (req: Request, res: Response) => {
+  try {
+    const options = parseChunkerOptions(req.query);
+    const { document, chunks, comparison } = await dryRunChunking(req.params.id, options);
+    res.json({ success: true, document, options, comparison, count: chunks.length, chunks });
+  } catch (error) {
+    if (error instanceof InvalidChunkerOptionsError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    if (error instanceof VersionNotFoundError) {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error instanceof StorageObjectNotFoundError) {
+      return res.status(404).json({ success: false, error: `Stored file not found: ${error.message}` });
+    }
+    if (error instanceof DocumentParseError) {
+      return res.status(422).json({ success: false, error: error.message });
+    }
+    logger.error('Chunking dry-run route error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
+/**
+ * DELETE /api/documents/:storagePath
+ * Delete a document: its storage object, its vectors and keyword index entries
+ * (ids starting with `${storagePath}-chunk-`) and the cached retrievals that returned it.
+ * The storage path may contain slashes (folder/file) or be URL-encoded.
+ */
+router.delete('/:storagePath(*)', async (req: Request, res: Response) => {
+  try {
+    const result = await deleteDocument(req.params.storagePath);
+
+    res.json({
+      success: true,
+      message: `Deleted ${result.storagePath}`,
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof InvalidStoragePathError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    if (error instanceof DocumentNotFoundError) {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    logger.error('Delete document route error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
+export default router;
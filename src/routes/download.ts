@@ -1,72 +1,84 @@
-import express, { Request, Response, Router } from 'express';
-import { supabaseAdmin, BUCKET_NAME } from '../config/supabase';
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { getStorageProvider, StorageObjectNotFoundError } from '../providers/storage';
+import { validateStoragePath, InvalidStoragePathError } from '../services/documentService';
+import {
+  createSignedDownloadLink, formatContentDisposition, getDownloadFileName, isSignatureRequired,
+  verifyDownloadSignature, ContentDisposition, InvalidSignatureError,
+  DEFAULT_LINK_EXPIRY_SECONDS, MAX_LINK_EXPIRY_SECONDS
+} from '../services/downloadService';
+import { authenticateUser, AuthenticatedRequest } from '../middleware/auth';
+import { getContentType, isActiveContentType } from '../utils/contentTypes';
+import { parseRangeHeader } from '../utils/httpRange';
 import logger from '../utils/logger';
 
 const router: Router = express.Router();
 
-router.get('/:fileName', async (req: Request, res: Response) => {
-  try {
-    const { fileName } = req.params;
+function parseDisposition(value: unknown): ContentDisposition | undefined {
+  if (value === undefined) return 'attachment';
+  return value === 'inline' || value === 'attachment' ? value : undefined;
+}
 
-    if (!fileName) {
-      return res.status(400).json({ error: 'File name is required' });
-    }
+// Anyone with a link can download, so links can only be signed by signed-in users
+// once unsigned downloads are refused
+function authenticateWhenSignatureRequired(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  return isSignatureRequired() ? authenticateUser(req, res, next) : next();
+}
 
-    // Download file from Supabase storage
-    const { data, error } = await supabaseAdmin.storage
-      .from(BUCKET_NAME)
-      .download(fileName);
+/**
+ * POST /api/download/sign
+ * Body: { "storagePath": "entreprise/1700000000000-offres.pdf", "expiresIn": 900, "disposition": "inline" }
+ * Create a time-limited download link (expiresIn in seconds, default 15 minutes, max 7 days).
+ */
+router.post('/sign', authenticateWhenSignatureRequired, async (req: Request, res: Response) => {
+  try {
+    const storagePath = validateStoragePath(req.body.storagePath);
+    const disposition = parseDisposition(req.body.disposition);
+    const expiresIn = req.body.expiresIn === undefined ? DEFAULT_LINK_EXPIRY_SECONDS : Number(req.body.expiresIn);
 
-    if (error) {
-      logger.error('Download error:', error);
-      return res.status(404).json({ error: `File not found: ${error.message}` });
+    if (!disposition) {
+      return res.status(400).json({ success: false, error: 'disposition must be "inline" or "attachment"' });
+    }
+    if (!Number.isInteger(expiresIn) || expiresIn < 1 || expiresIn > MAX_LINK_EXPIRY_SECONDS) {
+      return res.status(400).json({
+        success: false,
+        error: `expiresIn must be an integer between 1 and ${MAX_LINK_EXPIRY_SECONDS} seconds`,
+      });
     }
 
-    // Convert blob to buffer
-    const arrayBuffer = await data.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    // Determine content type based on file extension
-    const ext = fileName.split('.').pop()?.toLowerCase();
-    let contentType = 'application/octet-stream';
-    if (ext === 'pdf') {
-      contentType = 'application/pdf';
-    } else if (ext === 'docx') {
-      contentType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
-    } else if (ext === 'doc') {
-      contentType = 'application/msword';
+    if (!(await getStorageProvider().stat(storagePath))) {
+      return res.status(404).json({ success: false, error: `File not found: ${storagePath}` });
     }
 
-    // Set headers and send file
-    res.setHeader('Content-Type', contentType);
-    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-    res.send(buffer);
+    res.json({ success: true, storagePath, ...createSignedDownloadLink(storagePath, expiresIn, disposition) });
   } catch (error) {
-    logger.error('Download route error:', error);
+    if (error instanceof InvalidStoragePathError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    logger.error('Sign download route error:', error);
     res.status(500).json({
+      success: false,
       error: error instanceof Error ? error.message : 'Unknown error occurred',
     });
   }
 });
 
-// List all files in the bucket
+/**
+ * GET /api/download?folder=entreprise&recursive=true
+ * List stored files: the bucket root by default, or a folder; recursive=true includes subfolders.
+ */
 router.get('/', async (req: Request, res: Response) => {
   try {
-    const { data, error } = await supabaseAdmin.storage
-      .from(BUCKET_NAME)
-      .list();
-
-    if (error) {
-      return res.status(500).json({ error: error.message });
-    }
+    const folder = typeof req.query.folder === 'string' ? req.query.folder : '';
+    const files = await getStorageProvider().list(folder, { recursive: req.query.recursive === 'true' });
 
     res.json({
       success: true,
-      files: data?.map(file => ({
+      files: files.map(file => ({
         name: file.name,
-        size: file.metadata?.size,
-        createdAt: file.created_at,
-      })) || [],
+        path: file.path,
+        size: file.size,
+        createdAt: file.createdAt,
+      })),
     });
   } catch (error) {
     logger.error('List files error:', error);
@@ -76,5 +88,92 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
-export default router;
+/**
+ * GET /api/download/:storagePath?disposition=inline
+ * Stream a stored file. The path may contain folders (entreprise/1700000000000-offres.pdf).
+ * Supports single-range requests (206 Partial Content), used by PDF viewers to load pages
+ * on demand. Signed links add `expires` and `signature`; they are required when
+ * DOWNLOAD_REQUIRE_SIGNATURE=true.
+ * Uploaded files are untrusted: HTML (and other active types) is always sent as an
+ * attachment, and every response forbids sniffing and sandboxes the content.
+ */
+router.get('/:storagePath(*)', async (req: Request, res: Response) => {
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Content-Security-Policy', 'sandbox');
+
+  try {
+    const storagePath = validateStoragePath(req.params.storagePath);
+    const disposition = parseDisposition(req.query.disposition);
+
+    if (!disposition) {
+      return res.status(400).json({ error: 'disposition must be "inline" or "attachment"' });
+    }
+
+    if (req.query.signature !== undefined) {
+      verifyDownloadSignature(storagePath, req.query.expires, disposition, req.query.signature);
+    } else if (isSignatureRequired()) {
+      return res.status(401).json({ error: 'A signed download link is required' });
+    }
+
+    const storage = getStorageProvider();
+    const object = await storage.stat(storagePath);
+    if (!object) {
+      return res.status(404).json({ error: `File not found: ${storagePath}` });
+    }
+
+    // Ranges need the object size; without it the whole file is sent
+    const size = object.size;
+    const range = size !== undefined ? parseRangeHeader(req.headers.range, size) : undefined;
+
+    if (range === null) {
+      res.setHeader('Content-Range', `bytes */${size}`);
+      return res.status(416).end();
+    }
 
+    // Opened before any header is set, so a failure still gets a clean error response
+    const stream = req.method === 'HEAD' ? undefined : await storage.createReadStream(storagePath, range);
+
+    const contentType = getContentType(storagePath);
+    const servedDisposition = isActiveContentType(contentType) ? 'attachment' : disposition;
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', formatContentDisposition(servedDisposition, getDownloadFileName(storagePath)));
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Cache-Control', 'private, no-cache');
+    if (object.updatedAt) res.setHeader('Last-Modified', new Date(object.updatedAt).toUTCString());
+
+    if (range) {
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+      res.setHeader('Content-Length', range.end - range.start + 1);
+    } else if (size !== undefined) {
+      res.setHeader('Content-Length', size);
+    }
+
+    if (!stream) {
+      return res.end();
+    }
+
+    stream.on('error', error => {
+      logger.error('Download stream error:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    if (error instanceof InvalidStoragePathError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof InvalidSignatureError) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error instanceof StorageObjectNotFoundError) {
+      return res.status(404).json({ error: `File not found: ${error.message}` });
+    }
+    logger.error('Download route error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,95 @@
+import express, { Request, Response, Router } from 'express';
+import {
+  createFolder, deleteFolder, getFolderTree, moveFolder,
+  FolderExistsError, FolderNotEmptyError, FolderNotFoundError, InvalidFolderPathError
+} from '../services/folderService';
+import logger from '../utils/logger';
+
+const router: Router = express.Router();
+
+// Map folder errors to HTTP status codes; other errors are 500s
+function sendFolderError(res: Response, error: unknown, context: string) {
+  if (error instanceof InvalidFolderPathError) {
+    return res.status(400).json({ success: false, error: error.message });
+  }
+  if (error instanceof FolderNotFoundError) {
+    return res.status(404).json({ success: false, error: error.message });
+  }
+  if (error instanceof FolderExistsError || error instanceof FolderNotEmptyError) {
+    return res.status(409).json({ success: false, error: error.message });
+  }
+  logger.error(`${context} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error occurred',
+  });
+}
+
+/**
+ * GET /api/folders
+ * Recursive folder tree with the number of documents in each folder
+ * (`documentCount`) and in its subfolders too (`totalDocumentCount`).
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const tree = await getFolderTree();
+    res.json({ success: true, tree });
+  } catch (error) {
+    sendFolderError(res, error, 'Folder tree route');
+  }
+});
+
+/**
+ * POST /api/folders
+ * Body: { "path": "clients/entreprise" }
+ * Create an empty folder. Folder names are sanitized like upload folders.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const folder = await createFolder(req.body.path);
+    res.status(201).json({ success: true, message: `Created folder ${folder}`, path: folder });
+  } catch (error) {
+    sendFolderError(res, error, 'Create folder route');
+  }
+});
+
+/**
+ * PATCH /api/folders/:folderPath
+ * Body: { "newPath": "archives/entreprise" }
+ * Rename or move a folder with everything in it. Stored files, vector ids and
+ * their `folder`/`storagePath` metadata, keyword index entries and version
+ * records all follow the new path.
+ */
+router.patch('/:folderPath(*)', async (req: Request, res: Response) => {
+  try {
+    const result = await moveFolder(req.params.folderPath, req.body.newPath);
+    res.json({
+      success: true,
+      message: `Moved folder ${result.from} to ${result.to}`,
+      ...result,
+    });
+  } catch (error) {
+    sendFolderError(res, error, 'Move folder route');
+  }
+});
+
+/**
+ * DELETE /api/folders/:folderPath?recursive=true
+ * Delete a folder. Folders that contain documents are only deleted with
+ * recursive=true, which deletes every document in them (storage, vectors,
+ * keyword index, cache and version records).
+ */
+router.delete('/:folderPath(*)', async (req: Request, res: Response) => {
+  try {
+    const result = await deleteFolder(req.params.folderPath, req.query.recursive === 'true');
+    res.json({
+      success: true,
+      message: `Deleted folder ${result.folder}`,
+      ...result,
+    });
+  } catch (error) {
+    sendFolderError(res, error, 'Delete folder route');
+  }
+});
+
+export default router;
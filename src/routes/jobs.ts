@@ -0,0 +1,85 @@
+import express, { Request, Response, Router } from 'express';
+import {
+  getIngestionJob, IngestionJob, isJobFinished, JobNotFoundError, JobNotRetryableError,
+  retryIngestionJob, subscribeToJob
+} from '../services/ingestionJobService';
+import logger from '../utils/logger';
+
+const router: Router = express.Router();
+
+/**
+ * GET /api/jobs/:id
+ * Status of an ingestion job: overall status, each stage (parse, store, chunk,
+ * embed, upsert) with its progress, and the upload result once finished.
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const job = getIngestionJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ success: false, error: `Job not found: ${req.params.id}` });
+  }
+  res.json({ success: true, job });
+});
+
+/**
+ * GET /api/jobs/:id/events
+ * Server-sent events: a `progress` event with the job on every change, then a
+ * `done` event when the job succeeds or fails, after which the stream closes.
+ */
+router.get('/:id/events', (req: Request, res: Response) => {
+  const job = getIngestionJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ success: false, error: `Job not found: ${req.params.id}` });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': '*',
+  });
+
+  let unsubscribe: () => void = () => { };
+
+  const send = (current: IngestionJob) => {
+    try {
+      const event = isJobFinished(current) ? 'done' : 'progress';
+      res.write(`event: ${event}\n`);
+      res.write(`data: ${JSON.stringify(current)}\n\n`);
+      if (event === 'done') {
+        unsubscribe();
+        res.end();
+      }
+    } catch (e) {
+      logger.warn('Error sending job SSE', e);
+    }
+  };
+
+  unsubscribe = subscribeToJob(job.id, send);
+  req.on('close', () => unsubscribe());
+  send(job);
+});
+
+/**
+ * POST /api/jobs/:id/retry
+ * Re-run a failed job from the stage that failed, with the file uploaded originally.
+ */
+router.post('/:id/retry', (req: Request, res: Response) => {
+  try {
+    const job = retryIngestionJob(req.params.id);
+    res.status(202).json({ success: true, job });
+  } catch (error) {
+    if (error instanceof JobNotFoundError) {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error instanceof JobNotRetryableError) {
+      return res.status(409).json({ success: false, error: error.message });
+    }
+    logger.error('Job retry route error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,102 @@
+import express, { Request, Response, Router } from 'express';
+import {
+  createReindexOperation, getReindexOperation, isReindexFinished, parseReindexScope, subscribeToReindex,
+  InvalidReindexScopeError, NothingToReindexError, ReindexOperation
+} from '../services/reindexService';
+import { DocumentNotFoundError, InvalidStoragePathError } from '../services/documentService';
+import { InvalidFolderPathError } from '../services/folderService';
+import logger from '../utils/logger';
+
+const router: Router = express.Router();
+
+/**
+ * POST /api/reindex
+ * Body: { "storagePath": "entreprise/1700000000000-offres.pdf" } | { "folder": "entreprise", "recursive": true } | { "all": true }
+ * Re-parse, re-chunk and re-embed stored documents from the files in storage, replacing
+ * their vectors. Runs in the background: responds 202 with the operation, to follow
+ * with GET /api/reindex/:id or its event stream.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const operation = await createReindexOperation(parseReindexScope(req.body || {}));
+
+    res.status(202).json({
+      success: true,
+      message: `Reindexing ${operation.total} documents`,
+      operationId: operation.id,
+      status: operation.status,
+      total: operation.total,
+      statusUrl: `/api/reindex/${operation.id}`,
+      eventsUrl: `/api/reindex/${operation.id}/events`,
+    });
+  } catch (error) {
+    if (
+      error instanceof InvalidReindexScopeError ||
+      error instanceof InvalidStoragePathError ||
+      error instanceof InvalidFolderPathError
+    ) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    if (error instanceof DocumentNotFoundError || error instanceof NothingToReindexError) {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    logger.error('Reindex route error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+});
+
+/**
+ * GET /api/reindex/:id
+ * Status of a reindex operation: counts and the status of each document.
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const operation = getReindexOperation(req.params.id);
+  if (!operation) {
+    return res.status(404).json({ success: false, error: `Reindex operation not found: ${req.params.id}` });
+  }
+  res.json({ success: true, operation });
+});
+
+/**
+ * GET /api/reindex/:id/events
+ * Server-sent events: a `progress` event with the operation on every change, then a
+ * `done` event when every document has been processed, after which the stream closes.
+ */
+router.get('/:id/events', (req: Request, res: Response) => {
+  const operation = getReindexOperation(req.params.id);
+  if (!operation) {
+    return res.status(404).json({ success: false, error: `Reindex operation not found: ${req.params.id}` });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': '*',
+  });
+
+  let unsubscribe: () => void = () => { };
+
+  const send = (current: ReindexOperation) => {
+    try {
+      const event = isReindexFinished(current) ? 'done' : 'progress';
+      res.write(`event: ${event}\n`);
+      res.write(`data: ${JSON.stringify(current)}\n\n`);
+      if (event === 'done') {
+        unsubscribe();
+        res.end();
+      }
+    } catch (e) {
+      logger.warn('Error sending reindex SSE', e);
+    }
+  };
+
+  unsubscribe = subscribeToReindex(operation.id, send);
+  req.on('close', () => unsubscribe());
+  send(operation);
+});
+
+export default router;
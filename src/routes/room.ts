@@ -1,60 +1,9 @@
-import express, { Request, Response, NextFunction } from 'express';
+import express, { Response } from 'express';
 import { supabase } from '../config/supabase';
+import { authenticateUser, AuthenticatedRequest } from '../middleware/auth';
 
 const router = express.Router();
 
-// Extended Request interface with user
-interface AuthenticatedRequest extends Request {
-    user?: {
-        id: string;
-        email?: string;
-        [key: string]: any;
-    };
-}
-
-/**
- * Authentication Middleware
- * Extracts and validates the Bearer token from Authorization header
- * Attaches user info to the request object
- */
-const authenticateUser = async (
-    req: AuthenticatedRequest,
-    res: Response,
-    next: NextFunction
-) => {
-    try {
-        const authHeader = req.headers.authorization;
-
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            return res.status(401).json({
-                success: false,
-                error: 'Authentication required. Please provide a valid access token.',
-            });
-        }
-
-        const token = authHeader.split(' ')[1];
-
-        const { data, error } = await supabase.auth.getUser(token);
-
-        if (error || !data.user) {
-            return res.status(401).json({
-                success: false,
-                error: 'Invalid or expired access token.',
-            });
-        }
-
-        // Attach user to request
-        req.user = data.user;
-        next();
-    } catch (error) {
-        console.error('Authentication error:', error);
-        return res.status(500).json({
-            success: false,
-            error: 'Authentication failed.',
-        });
-    }
-};
-
 // Apply authentication middleware to all routes
 router.use(authenticateUser);
 
@@ -1,6 +1,7 @@
 import express, { Request, Response } from 'express';
 import { generateEmbedding } from '../utils/embeddings';
-import { getPineconeIndex } from '../config/pinecone';
+import { getVectorStore } from '../providers/vectorStore';
+import { parseRetrievalFilters, buildMetadataFilter, InvalidFilterError, RetrievalFilters } from '../utils/metadataFilter';
 import logger from '../utils/logger';
 
 const router = express.Router();
@@ -12,6 +13,9 @@ interface SearchResult {
     matches: {
         text: string;
         lineNumber: number;
+        page?: number;
+        lineInPage?: number;
+        headingPath?: string;
         score: number;
     }[];
 }
@@ -19,7 +23,7 @@ interface SearchResult {
 /**
  * POST /api/search
  * Semantic search across documents
- * Body: { "query": "search phrase", "topK": 20 }
+ * Body: { "query": "search phrase", "topK": 20, "filters": { "folder": "entreprise", "uploadedAfter": "2024-01-01" } }
  */
 router.post('/', async (req: Request, res: Response) => {
     try {
@@ -32,16 +36,30 @@ router.post('/', async (req: Request, res: Response) => {
             });
         }
 
-        logger.log(`🔍 Searching for: "${query}"`);
+        let filters: RetrievalFilters | undefined;
+        try {
+            filters = parseRetrievalFilters(req.body.filters);
+        } catch (error) {
+            if (error instanceof InvalidFilterError) {
+                return res.status(400).json({
+                    success: false,
+                    error: error.message,
+                });
+            }
+            throw error;
+        }
+
+        logger.log(`🔍 Searching for: "${query}"${filters ? ` with filters ${JSON.stringify(filters)}` : ''}`);
 
         // 1. Generate embedding for the query
         const embedding = await generateEmbedding(query);
 
         // 2. Query Pinecone
-        const index = await getPineconeIndex();
-        const results = await index.query({
+        const vectorStore = getVectorStore();
+        const results = await vectorStore.query({
             vector: embedding,
             topK: topK,
+            filter: buildMetadataFilter(filters),
             includeMetadata: true,
         });
 
@@ -60,6 +78,9 @@ router.post('/', async (req: Request, res: Response) => {
             text: string;
             lineNumber: string | number;
             folder?: string;
+            headingPath?: string;
+            page?: number;
+            lineInPage?: number;
             [key: string]: any;
         }
 
@@ -91,6 +112,9 @@ router.post('/', async (req: Request, res: Response) => {
             groupedResults[fileKey].matches.push({
                 text: metadata.text,
                 lineNumber: Number(metadata.lineNumber) || 0,
+                page: metadata.page !== undefined ? Number(metadata.page) : undefined,
+                lineInPage: metadata.lineInPage !== undefined ? Number(metadata.lineInPage) : undefined,
+                headingPath: metadata.headingPath || undefined,
                 score: match.score
             });
         }
@@ -104,6 +128,7 @@ router.post('/', async (req: Request, res: Response) => {
         res.json({
             success: true,
             query,
+            filters,
             count: formattedResults.length,
             results: formattedResults
         });
@@ -2,7 +2,10 @@ import express, { Request, Response, Router } from 'express';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs/promises';
-import { uploadDocument, uploadToPineconeOnly } from '../services/uploadService';
+import { createIngestionJob, IngestionJob } from '../services/ingestionJobService';
+import { Uploader } from '../services/uploadService';
+import { optionalAuthenticateUser, AuthenticatedRequest } from '../middleware/auth';
+import { SUPPORTED_EXTENSIONS } from '../utils/contentTypes';
 import logger from '../utils/logger';
 
 const router: Router = express.Router();
@@ -27,12 +30,11 @@ const storage = multer.diskStorage({
 const upload = multer({
   storage,
   fileFilter: (req, file, cb) => {
-    const allowedTypes = ['.pdf', '.docx', '.doc'];
     const ext = path.extname(file.originalname).toLowerCase();
-    if (allowedTypes.includes(ext)) {
+    if (SUPPORTED_EXTENSIONS.includes(ext)) {
       cb(null, true);
     } else {
-      cb(new Error(`File type ${ext} is not allowed. Only PDF and Word documents are supported.`));
+      cb(new Error(`File type ${ext} is not allowed. Supported types: ${SUPPORTED_EXTENSIONS.join(', ')}`));
     }
   },
   limits: {
@@ -40,11 +42,36 @@ const upload = multer({
   },
 });
 
+// Multipart fields are strings: "replace=true" (or "1")
+function parseReplaceFlag(value: unknown): boolean {
+  return value === true || value === 'true' || value === '1';
+}
+
+// Recorded on the document record when the request is signed in
+function getUploader(req: AuthenticatedRequest): Uploader | undefined {
+  return req.user ? { id: req.user.id, email: req.user.email } : undefined;
+}
+
+function toJobResponse(job: IngestionJob) {
+  return {
+    jobId: job.id,
+    fileName: job.fileName,
+    status: job.status,
+    statusUrl: `/api/jobs/${job.id}`,
+    eventsUrl: `/api/jobs/${job.id}/events`,
+  };
+}
+
 /**
  * POST /api/upload
  * Upload document to both Supabase storage and Pinecone
+ * Form fields: file, folder (optional), replace (optional, "true" to replace the
+ * active version of the same document)
+ * With a Bearer token, the user is recorded as the uploader.
+ * Ingestion runs as a background job: responds 202 with the job id, to follow with
+ * GET /api/jobs/:id or its event stream.
  */
-router.post('/', upload.single('file'), async (req: Request, res: Response) => {
+router.post('/', optionalAuthenticateUser, upload.single('file'), async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file uploaded' });
@@ -52,24 +79,18 @@ router.post('/', upload.single('file'), async (req: Request, res: Response) => {
 
     // Get optional folder from request body (can be new or existing folder name)
     const folder = (req.body.folder || req.body.folderName) as string | undefined;
+    const replace = parseReplaceFlag(req.body.replace);
 
-    const result = await uploadDocument(req.file.path, req.file.originalname, folder);
-
-    if (result.success) {
-      res.json({
-        success: true,
-        message: result.message,
-        fileName: result.fileName,
-        folder: result.folder,
-        storagePath: result.storagePath,
-        chunksCount: result.chunksCount,
-      });
-    } else {
-      res.status(500).json({
-        success: false,
-        error: result.message,
-      });
-    }
+    const job = createIngestionJob(req.file.path, req.file.originalname, folder, {
+      replace,
+      uploader: getUploader(req),
+    });
+
+    res.status(202).json({
+      success: true,
+      message: `Processing ${job.fileName}`,
+      ...toJobResponse(job),
+    });
   } catch (error) {
     logger.error('Upload route error:', error);
     res.status(500).json({
@@ -83,6 +104,7 @@ router.post('/', upload.single('file'), async (req: Request, res: Response) => {
  * POST /api/upload/re-pinecone
  * Upload document to Pinecone only (skip Supabase storage)
  * Useful for re-indexing documents that are already stored elsewhere
+ * Runs as a background job like POST /api/upload (its store stage is skipped).
  */
 router.post('/re-pinecone', upload.single('file'), async (req: Request, res: Response) => {
   try {
@@ -93,24 +115,14 @@ router.post('/re-pinecone', upload.single('file'), async (req: Request, res: Res
     // Get optional folder from request body
     const folder = (req.body.folder || req.body.folderName) as string | undefined;
 
-    const result = await uploadToPineconeOnly(req.file.path, req.file.originalname, folder);
-
-    if (result.success) {
-      res.json({
-        success: true,
-        message: result.message,
-        fileName: result.fileName,
-        folder: result.folder,
-        referencePath: result.storagePath, // Using referencePath instead of storagePath for clarity
-        chunksCount: result.chunksCount,
-        note: 'Document indexed in Pinecone only. Not stored in Supabase.',
-      });
-    } else {
-      res.status(500).json({
-        success: false,
-        error: result.message,
-      });
-    }
+    const job = createIngestionJob(req.file.path, req.file.originalname, folder, { pineconeOnly: true });
+
+    res.status(202).json({
+      success: true,
+      message: `Indexing ${job.fileName}`,
+      ...toJobResponse(job),
+      note: 'Document indexed in Pinecone only. Not stored in Supabase.',
+    });
   } catch (error) {
     logger.error('Re-pinecone upload route error:', error);
     res.status(500).json({
@@ -123,8 +135,10 @@ router.post('/re-pinecone', upload.single('file'), async (req: Request, res: Res
 /**
  * POST /api/upload/multiple
  * Upload multiple documents to Supabase storage and Pinecone
+ * Form fields: files, folder (optional), replace (optional, applies to every file)
+ * Responds 202 with one background job per file.
  */
-router.post('/multiple', upload.array('files'), async (req: Request, res: Response) => {
+router.post('/multiple', optionalAuthenticateUser, upload.array('files'), async (req: AuthenticatedRequest, res: Response) => {
   try {
     if (!req.files || (req.files as Express.Multer.File[]).length === 0) {
       return res.status(400).json({ error: 'No files uploaded' });
@@ -133,37 +147,18 @@ router.post('/multiple', upload.array('files'), async (req: Request, res: Respon
     const files = req.files as Express.Multer.File[];
     // Get optional folder from request body
     const folder = (req.body.folder || req.body.folderName) as string | undefined;
+    const replace = parseReplaceFlag(req.body.replace);
 
-    logger.log(`Processing ${files.length} files upload to folder: ${folder || 'root'}`);
-
-    const results = [];
-
-    // Process files sequentially to be safer with rate limits
-    for (const file of files) {
-      try {
-        const result = await uploadDocument(file.path, file.originalname, folder);
-        results.push(result);
-      } catch (error) {
-        logger.error(`Error processing file ${file.originalname}:`, error);
-        results.push({
-          success: false,
-          fileName: file.originalname,
-          folder: folder,
-          message: error instanceof Error ? error.message : 'Unknown error',
-          chunksCount: 0
-        });
-
-        // Try to clean up temp file if service didn't
-        try {
-          await fs.unlink(file.path).catch(() => { });
-        } catch (e) { }
-      }
-    }
+    logger.log(`Queueing ${files.length} files upload to folder: ${folder || 'root'}`);
+
+    // Jobs run one at a time, in upload order
+    const uploader = getUploader(req);
+    const jobs = files.map(file => createIngestionJob(file.path, file.originalname, folder, { replace, uploader }));
 
-    res.json({
+    res.status(202).json({
       success: true,
-      message: `Processed ${files.length} files`,
-      results
+      message: `Processing ${files.length} files`,
+      jobs: jobs.map(toJobResponse),
     });
 
   } catch (error) {
@@ -1,12 +1,16 @@
 import { generateEmbedding } from '../utils/embeddings';
-import { getPineconeIndex } from '../config/pinecone';
-import { rerankDocuments, RetrievedDocument, RankedDocument } from '../utils/reranker';
+import { RankedDocument } from '../utils/reranker';
+import { createQueryLog, finalizeQueryLog } from '../utils/queryLogger';
+import {
+  DEFAULT_CHAT_TOP_K, getRetrievalKey, rankCandidates, resolveSearchQuery, searchCandidates
+} from './retrievalService';
 import logger from '../utils/logger';
 import * as fs from 'fs';
 import * as path from 'path';
 
 interface CachedQuery {
   question: string;
+  retrievalKey: string; // Retrievals made with different filters or retrieval settings never match each other
   embedding: number[];
   retrievalResults: RankedDocument[];
   timestamp: number;
@@ -59,10 +63,11 @@ function cosineSimilarity(a: number[], b: number[]): number {
  * Check cache for a similar query.
  * Returns the cached result if similarity > threshold, null otherwise.
  */
-export async function checkCache(queryEmbedding: number[]): Promise<CachedQuery | null> {
+export async function checkCache(queryEmbedding: number[], retrievalKey: string = ''): Promise<CachedQuery | null> {
   let bestMatch: { id: string; similarity: number } | null = null;
   
   for (const { id, embedding } of embeddingIndex) {
+    if (queryCache.get(id)?.retrievalKey !== retrievalKey) continue;
     const similarity = cosineSimilarity(queryEmbedding, embedding);
     if (similarity >= SIMILARITY_THRESHOLD) {
       if (!bestMatch || similarity > bestMatch.similarity) {
@@ -87,11 +92,17 @@ export async function checkCache(queryEmbedding: number[]): Promise<CachedQuery
 /**
  * Add a query and its results to the cache.
  */
-export function addToCache(question: string, embedding: number[], results: RankedDocument[]): void {
+export function addToCache(
+  question: string,
+  embedding: number[],
+  results: RankedDocument[],
+  retrievalKey: string = ''
+): void {
   const id = `q_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   
   queryCache.set(id, {
     question,
+    retrievalKey,
     embedding,
     retrievalResults: results,
     timestamp: Date.now()
@@ -104,7 +115,35 @@ export function addToCache(question: string, embedding: number[], results: Ranke
 }
 
 /**
- * Warm the cache by pre-computing embeddings and retrievals for common questions.
+ * Drop every cached retrieval that returned a chunk of the document.
+ * Returns the number of cached queries removed.
+ */
+export function invalidateCacheForDocument(storagePath: string): number {
+  const idPrefix = `${storagePath}-chunk-`;
+  let removed = 0;
+
+  for (const [id, cached] of queryCache) {
+    const referencesDocument = cached.retrievalResults.some(doc =>
+      doc.metadata.storagePath === storagePath || doc.id.startsWith(idPrefix)
+    );
+    if (!referencesDocument) continue;
+
+    queryCache.delete(id);
+    const indexPosition = embeddingIndex.findIndex(entry => entry.id === id);
+    if (indexPosition !== -1) embeddingIndex.splice(indexPosition, 1);
+    removed++;
+  }
+
+  if (removed > 0) {
+    stats.cachedQuestions = queryCache.size;
+    logger.log(`[Cache] Invalidated ${removed} cached queries referencing ${storagePath}`);
+  }
+  return removed;
+}
+
+/**
+ * Warm the cache by pre-computing embeddings and retrievals for common questions,
+ * as a chat request with the default settings would retrieve them.
  */
 export async function warmCache(): Promise<{ success: boolean; questionsProcessed: number; errors: string[] }> {
   const errors: string[] = [];
@@ -119,45 +158,31 @@ export async function warmCache(): Promise<{ success: boolean; questionsProcesse
     stats.totalQuestions = questions.length;
     logger.log(`[Cache] Starting cache warming with ${questions.length} questions...`);
     
-    const index = await getPineconeIndex();
-    
+    // Warmed entries are looked up by chat requests made with the default retrieval settings
+    const retrievalKey = getRetrievalKey();
+
     for (const question of questions) {
       try {
-        // Generate embedding
-        const embedding = await generateEmbedding(question);
+        // Same pipeline as a chat request without history (refinement, hybrid search, rerank, MMR)
+        const queryLog = createQueryLog(question);
+        const { standaloneQuestion, searchQuery } = await resolveSearchQuery(question, [], queryLog);
+        const embedding = await generateEmbedding(searchQuery);
         
         // Check if already cached
-        const existing = await checkCache(embedding);
+        const existing = await checkCache(embedding, retrievalKey);
         if (existing) {
           logger.log(`[Cache] Question already cached, skipping: "${question}"`);
+          finalizeQueryLog(queryLog, existing.retrievalResults.length);
           questionsProcessed++;
           continue;
         }
         
-        // Retrieve documents (20 for reranking)
-        const results = await index.query({
-          vector: embedding,
-          topK: 20,
-          includeMetadata: true
-        });
-        
-        // Convert to RetrievedDocument format
-        const documents: RetrievedDocument[] = (results.matches || []).map(match => ({
-          id: match.id,
-          score: match.score || 0,
-          metadata: {
-            fileName: (match.metadata?.fileName as string) || 'Unknown',
-            lineNumber: (match.metadata?.lineNumber as string) || '0',
-            text: (match.metadata?.text as string) || '',
-            ...match.metadata
-          }
-        }));
-        
-        // Rerank to top 10
-        const rerankedResults = rerankDocuments(question, documents);
+        const candidates = await searchCandidates(searchQuery, embedding, {}, queryLog);
+        const rankedResults = await rankCandidates(searchQuery, candidates, DEFAULT_CHAT_TOP_K, {}, queryLog);
+        finalizeQueryLog(queryLog, rankedResults.length);
         
         // Add to cache
-        addToCache(question, embedding, rerankedResults);
+        addToCache(standaloneQuestion, embedding, rankedResults, retrievalKey);
         questionsProcessed++;
         
         // Small delay to avoid rate limiting
@@ -1,13 +1,19 @@
-import { chatWithDeepSeek, chatWithDeepSeekStream, ChatMessage } from '../config/deepseek';
+import { getLlmProvider, ChatMessage } from '../providers/llm';
 import { generateEmbedding } from '../utils/embeddings';
-import { getPineconeIndex } from '../config/pinecone';
-import { refineQueryWithGhostPrompt, isQueryLikelyAmbiguous } from '../utils/ghostPrompt';
-import { rerankDocuments, RetrievedDocument, getInitialRetrievalCount, getFinalResultCount } from '../utils/reranker';
+import { RankedDocument } from '../utils/reranker';
+import { RetrievalFilters } from '../utils/metadataFilter';
+import { buildContext } from '../utils/contextBuilder';
+import { expandChunks, ExpansionConfig, DEFAULT_EXPANSION_CONFIG } from '../utils/chunkExpansion';
 import { checkCache, addToCache } from './cacheService';
+import {
+  getRetrievalKey, rankCandidates, resolveSearchQuery, RetrievalOptions, searchCandidates
+} from './retrievalService';
+import { trimHistory, appendTurnToRoom } from './conversationService';
+import { createSignedDownloadLink } from './downloadService';
 import logger from '../utils/logger';
 import {
   createQueryLog, startStep, endStep, finalizeQueryLog,
-  markCacheHit, setRefinedQuery, QueryLog
+  markCacheHit, setFilters, QueryLog
 } from '../utils/queryLogger';
 
 export interface ChatResponse {
@@ -15,6 +21,14 @@ export interface ChatResponse {
   sources: Array<{
     fileName: string;
     lineNumber: number;
+    // PDFs only: page to open and line within that page
+    page?: number;
+    lineInPage?: number;
+    // Section of the document the passage comes from, e.g. "Offres > Idoom Fibre > Tarifs"
+    headingPath?: string;
+    storagePath?: string;
+    // Signed link opening the document inline (at the cited page for PDFs); absent for re-pinecone documents
+    downloadUrl?: string;
     text: string;
     score?: number;
   }>;
@@ -23,148 +37,59 @@ export interface ChatResponse {
     totalDuration: number;
     cacheHit: boolean;
     steps: Array<{ name: string; duration: number }>;
+    filters?: RetrievalFilters;
   };
+  // Id of the stored message when the turn was persisted to a room
+  messageId?: string;
+}
+
+// Citation links stay valid long enough to read the answer and follow up on it
+const CITATION_LINK_EXPIRY_SECONDS = 60 * 60;
+
+export interface ChatOptions extends RetrievalOptions {
+  // Earlier turns of the conversation, oldest first
+  history?: ChatMessage[];
+  // Room the turn is appended to once answered (authenticated callers only)
+  room?: { id: string; userId: string };
+  // Widen hits with neighboring chunks or their parent section (default: none)
+  expansion?: Partial<ExpansionConfig>;
+  // Token budget for the document context sent to the LLM (default: CONTEXT_TOKEN_BUDGET or 3000)
+  contextBudget?: number;
+  // Add signed download links to the sources; only for signed-in callers, since anyone
+  // holding a link can download the file
+  citationLinks?: boolean;
 }
 
-export async function chatWithDocuments(question: string, topK: number = 10): Promise<ChatResponse> {
+export async function chatWithDocuments(
+  question: string,
+  topK: number = 10,
+  options: ChatOptions = {}
+): Promise<ChatResponse> {
   const queryLog = createQueryLog(question);
 
   try {
-    // ========== STEP 1: Ghost Prompt (Query Refinement) ==========
-    let searchQuery = question;
-
-    if (isQueryLikelyAmbiguous(question)) {
-      const ghostStep = startStep(queryLog, 'Ghost Prompt (Query Refinement)');
-      const refined = await refineQueryWithGhostPrompt(question);
-      searchQuery = refined.refinedQuery;
-      setRefinedQuery(queryLog, searchQuery);
-      endStep(queryLog, ghostStep, {
-        isAmbiguous: refined.isAmbiguous,
-        intent: refined.intent,
-        entities: refined.entities
-      });
-    }
-
-    // ========== STEP 2: Generate Embedding ==========
-    const embeddingStep = startStep(queryLog, 'Generate Embedding');
-    const questionEmbedding = await generateEmbedding(searchQuery);
-    endStep(queryLog, embeddingStep, { embeddingDimensions: questionEmbedding.length });
-
-    // ========== STEP 3: Check Cache (Parallel with Retrieval) ==========
-    const cacheStep = startStep(queryLog, 'Cache Check');
-    const cachePromise = checkCache(questionEmbedding);
-
-    // ========== STEP 4: Vector Search (Initial Retrieval of 20) ==========
-    const retrievalStep = startStep(queryLog, 'Vector Search (Initial 20)');
-    const index = await getPineconeIndex();
-    const initialTopK = getInitialRetrievalCount();
-
-    const resultsPromise = index.query({
-      vector: questionEmbedding,
-      topK: initialTopK,
-      includeMetadata: true,
-    });
-
-    // Wait for both cache check and retrieval
-    const [cachedResult, results] = await Promise.all([cachePromise, resultsPromise]);
-    endStep(queryLog, cacheStep, { hit: !!cachedResult });
-
-    // If cache hit, use cached results
-    if (cachedResult) {
-      markCacheHit(queryLog);
-      endStep(queryLog, retrievalStep, { status: 'aborted - cache hit' });
-
-      // Build response from cached results
-      // Build response from cached results
-      const sources = cachedResult.retrievalResults.map(doc => {
-        const folder = doc.metadata.folder ? `${doc.metadata.folder}/` : '';
-        const displayFileName = `${folder}${doc.metadata.fileName}`;
-        return {
-          fileName: displayFileName,
-          lineNumber: parseInt(doc.metadata.lineNumber || '0', 10),
-          text: doc.metadata.text.substring(0, 200) + '...',
-          score: doc.finalScore
-        };
-      });
-
-      const contexts = cachedResult.retrievalResults.map(doc => {
-        const folder = doc.metadata.folder ? `${doc.metadata.folder}/` : '';
-        const displayFileName = `${folder}${doc.metadata.fileName}`;
-        return `[From ${displayFileName}, line ${doc.metadata.lineNumber}]: ${doc.metadata.text}`;
-      });
-
-      // Still need to call LLM for current question
-      const llmStep = startStep(queryLog, 'LLM Response Generation');
-      const answer = await generateLLMResponse(question, contexts);
-      endStep(queryLog, llmStep);
-
-      finalizeQueryLog(queryLog, sources.length);
-
-      return {
-        answer,
-        sources,
-        queryLog: buildQueryLogSummary(queryLog)
-      };
-    }
-
-    endStep(queryLog, retrievalStep, { resultsCount: results.matches?.length || 0 });
-
-    // ========== STEP 5: Convert to RetrievedDocument format ==========
-    const documents: RetrievedDocument[] = (results.matches || []).map(match => ({
-      id: match.id,
-      score: match.score || 0,
-      metadata: {
-        fileName: (match.metadata?.fileName as string) || 'Unknown',
-        lineNumber: (match.metadata?.lineNumber as string) || '0',
-        text: (match.metadata?.text as string) || '',
-        ...match.metadata
-      }
-    }));
-
-    // ========== STEP 6: Rerank (20 → 10) ==========
-    const rerankStep = startStep(queryLog, 'Reranking (20 → 10)');
-    const rerankedDocs = rerankDocuments(searchQuery, documents, {
-      finalResultCount: Math.min(topK, getFinalResultCount())
-    });
-    endStep(queryLog, rerankStep, {
-      inputCount: documents.length,
-      outputCount: rerankedDocs.length
-    });
-
-    // ========== STEP 7: Add to Cache ==========
-    const cacheAddStep = startStep(queryLog, 'Add to Cache');
-    addToCache(question, questionEmbedding, rerankedDocs);
-    endStep(queryLog, cacheAddStep);
+    // ========== STEP 1: Follow-up Rewrite + Ghost Prompt (Query Refinement) ==========
+    const history = trimHistory(options.history || []);
+    const { standaloneQuestion, searchQuery } = await resolveSearchQuery(question, history, queryLog);
 
-    // ========== STEP 8: Build Context ==========
-    const sources: ChatResponse['sources'] = [];
-    const contexts: string[] = [];
-
-    for (const doc of rerankedDocs) {
-      const folder = doc.metadata.folder ? `${doc.metadata.folder}/` : '';
-      const displayFileName = `${folder}${doc.metadata.fileName}`;
-
-      sources.push({
-        fileName: displayFileName,
-        lineNumber: parseInt(doc.metadata.lineNumber || '0', 10),
-        text: doc.metadata.text.substring(0, 200) + '...',
-        score: doc.finalScore
-      });
-
-      contexts.push(`[From ${displayFileName}, line ${doc.metadata.lineNumber}]: ${doc.metadata.text}`);
-    }
+    // ========== STEPS 2-8: Embedding, Cache, Retrieval, Reranking, Context ==========
+    const { sources, contexts } = await retrieveContext(standaloneQuestion, searchQuery, topK, options, queryLog);
 
     // ========== STEP 9: Generate LLM Response ==========
     const llmStep = startStep(queryLog, 'LLM Response Generation');
-    const answer = await generateLLMResponse(question, contexts);
+    const answer = await generateLLMResponse(question, contexts, history);
     endStep(queryLog, llmStep);
 
     finalizeQueryLog(queryLog, sources.length);
 
+    const queryLogSummary = buildQueryLogSummary(queryLog);
+    const messageId = await persistTurn(options.room, question, answer, sources, queryLogSummary);
+
     return {
       answer,
       sources,
-      queryLog: buildQueryLogSummary(queryLog)
+      queryLog: queryLogSummary,
+      messageId
     };
   } catch (error) {
     logger.error('Chat error:', error);
@@ -176,124 +101,21 @@ export async function chatWithDocuments(question: string, topK: number = 10): Pr
 export async function chatWithDocumentsStream(
   question: string,
   res: any,
-  topK: number = 10
+  topK: number = 10,
+  options: ChatOptions = {}
 ): Promise<void> {
   const queryLog = createQueryLog(question);
 
   try {
-    // ========== STEP 1: Ghost Prompt (Query Refinement) ==========
-    let searchQuery = question;
-
-    if (isQueryLikelyAmbiguous(question)) {
-      const ghostStep = startStep(queryLog, 'Ghost Prompt (Query Refinement)');
-      const refined = await refineQueryWithGhostPrompt(question);
-      searchQuery = refined.refinedQuery;
-      setRefinedQuery(queryLog, searchQuery);
-      endStep(queryLog, ghostStep, {
-        isAmbiguous: refined.isAmbiguous,
-        intent: refined.intent
-      });
-    }
-
-    // ========== STEP 2: Generate Embedding ==========
-    const embeddingStep = startStep(queryLog, 'Generate Embedding');
-    const questionEmbedding = await generateEmbedding(searchQuery);
-    endStep(queryLog, embeddingStep);
+    // ========== STEP 1: Follow-up Rewrite + Ghost Prompt (Query Refinement) ==========
+    const history = trimHistory(options.history || []);
+    const { standaloneQuestion, searchQuery } = await resolveSearchQuery(question, history, queryLog);
 
-    // ========== STEP 3: Check Cache + Vector Search (Parallel) ==========
-    const cacheStep = startStep(queryLog, 'Cache Check');
-    const cachePromise = checkCache(questionEmbedding);
-
-    const retrievalStep = startStep(queryLog, 'Vector Search (Initial 20)');
-    const index = await getPineconeIndex();
-    const initialTopK = getInitialRetrievalCount();
-
-    const resultsPromise = index.query({
-      vector: questionEmbedding,
-      topK: initialTopK,
-      includeMetadata: true,
-    });
-
-    const [cachedResult, results] = await Promise.all([cachePromise, resultsPromise]);
-    endStep(queryLog, cacheStep, { hit: !!cachedResult });
-
-    let sources: ChatResponse['sources'] = [];
-    let contexts: string[] = [];
-
-    if (cachedResult) {
-      markCacheHit(queryLog);
-      endStep(queryLog, retrievalStep, { status: 'aborted - cache hit' });
-
-      sources = cachedResult.retrievalResults.map(doc => {
-        const folder = doc.metadata.folder ? `${doc.metadata.folder}/` : '';
-        const displayFileName = `${folder}${doc.metadata.fileName}`;
-        return {
-          fileName: displayFileName,
-          lineNumber: parseInt(doc.metadata.lineNumber || '0', 10),
-          text: doc.metadata.text.substring(0, 200) + '...',
-          score: doc.finalScore
-        };
-      });
-
-      contexts = cachedResult.retrievalResults.map(doc => {
-        const folder = doc.metadata.folder ? `${doc.metadata.folder}/` : '';
-        const displayFileName = `${folder}${doc.metadata.fileName}`;
-        return `[From ${displayFileName}, line ${doc.metadata.lineNumber}]: ${doc.metadata.text}`;
-      });
-    } else {
-      endStep(queryLog, retrievalStep, { resultsCount: results.matches?.length || 0 });
-
-      // Convert and rerank
-      const documents: RetrievedDocument[] = (results.matches || []).map(match => ({
-        id: match.id,
-        score: match.score || 0,
-        metadata: {
-          fileName: (match.metadata?.fileName as string) || 'Unknown',
-          lineNumber: (match.metadata?.lineNumber as string) || '0',
-          text: (match.metadata?.text as string) || '',
-          ...match.metadata
-        }
-      }));
-
-      const rerankStep = startStep(queryLog, 'Reranking (20 → 10)');
-      const rerankedDocs = rerankDocuments(searchQuery, documents, {
-        finalResultCount: Math.min(topK, getFinalResultCount())
-      });
-      endStep(queryLog, rerankStep, {
-        inputCount: documents.length,
-        outputCount: rerankedDocs.length
-      });
-
-      // Add to cache
-      addToCache(question, questionEmbedding, rerankedDocs);
-
-      for (const doc of rerankedDocs) {
-        const folder = doc.metadata.folder ? `${doc.metadata.folder}/` : '';
-        const displayFileName = `${folder}${doc.metadata.fileName}`;
-
-        sources.push({
-          fileName: displayFileName,
-          lineNumber: parseInt(doc.metadata.lineNumber || '0', 10),
-          text: doc.metadata.text.substring(0, 200) + '...',
-          score: doc.finalScore
-        });
-        contexts.push(`[From ${displayFileName}, line ${doc.metadata.lineNumber}]: ${doc.metadata.text}`);
-      }
-    }
+    // ========== STEPS 2-8: Embedding, Cache, Retrieval, Reranking, Context ==========
+    const { sources, contexts } = await retrieveContext(standaloneQuestion, searchQuery, topK, options, queryLog);
 
     // ========== STEP: Build prompt and stream ==========
-    const contextText = contexts.join('\n\n');
-    const systemPrompt = `You are a helpful assistant for Algerie Telecom that answers questions based on the provided document context. 
-Don't cite the source file name and line number.
-If the answer cannot be found in the provided context, say so clearly. Also answer with the same language as the question.`;
-
-    const messages: ChatMessage[] = [
-      { role: 'system', content: systemPrompt },
-      {
-        role: 'user',
-        content: `Context from documents:\n\n${contextText}\n\nQuestion: ${question}\n\nPlease provide a detailed answer and mention the file name and line number for each piece of information you reference.`,
-      },
-    ];
+    const messages = buildAnswerMessages(question, contexts, history);
 
     res.writeHead(200, {
       'Content-Type': 'text/event-stream',
@@ -310,25 +132,35 @@ If the answer cannot be found in the provided context, say so clearly. Also answ
     };
 
     const llmStep = startStep(queryLog, 'LLM Response Generation (Streaming)');
+    let fullAnswer = '';
 
-    await chatWithDeepSeekStream(
+    await getLlmProvider().chatStream(
       messages,
       (chunk) => {
+        fullAnswer += chunk;
         try {
           sendSSE(chunk);
         } catch (e) {
           logger.warn('Error sending SSE chunk', e);
         }
       },
-      () => {
+      async (streamError) => {
         endStep(queryLog, llmStep);
         finalizeQueryLog(queryLog, sources.length);
 
+        const queryLogSummary = buildQueryLogSummary(queryLog);
+        // A stream cut short leaves a truncated answer: it is not stored in the room
+        const messageId = streamError
+          ? undefined
+          : await persistTurn(options.room, question, fullAnswer, sources, queryLogSummary);
+
         try {
           res.write(`event: done\n`);
           res.write(`data: ${JSON.stringify({
             sources,
-            queryLog: buildQueryLogSummary(queryLog)
+            queryLog: queryLogSummary,
+            messageId,
+            ...(streamError && { partial: true })
           })}\n\n`);
         } catch (e) {
           logger.warn('Error sending final SSE', e);
@@ -349,22 +181,161 @@ If the answer cannot be found in the provided context, say so clearly. Also answ
   }
 }
 
-// Helper function to generate LLM response
-async function generateLLMResponse(question: string, contexts: string[]): Promise<string> {
+// Shared retrieval pipeline: embed the search query, check the cache and query the vector store
+// in parallel, rerank, then build the sources and LLM contexts.
+async function retrieveContext(
+  standaloneQuestion: string,
+  searchQuery: string,
+  topK: number,
+  options: ChatOptions,
+  queryLog: QueryLog
+): Promise<{ sources: ChatResponse['sources']; contexts: string[] }> {
+  const retrievalKey = getRetrievalKey(options);
+  setFilters(queryLog, options.filters);
+
+  // ========== STEP 2: Generate Embedding ==========
+  const embeddingStep = startStep(queryLog, 'Generate Embedding');
+  const questionEmbedding = await generateEmbedding(searchQuery);
+  endStep(queryLog, embeddingStep, { embeddingDimensions: questionEmbedding.length });
+
+  // ========== STEP 3: Check Cache (Parallel with Retrieval) ==========
+  const cacheStep = startStep(queryLog, 'Cache Check');
+  const cachePromise = checkCache(questionEmbedding, retrievalKey);
+
+  // ========== STEPS 4-5: Vector Search + Keyword Search (Initial Retrieval of 20) + Rank Fusion ==========
+  const candidatesPromise = searchCandidates(searchQuery, questionEmbedding, options, queryLog);
+
+  // Wait for cache check and the retrieval
+  const [cachedResult, candidates] = await Promise.all([cachePromise, candidatesPromise]);
+  endStep(queryLog, cacheStep, { hit: !!cachedResult });
+
+  let rankedDocs: RankedDocument[];
+
+  if (cachedResult) {
+    // If cache hit, use cached results
+    markCacheHit(queryLog);
+    rankedDocs = cachedResult.retrievalResults;
+  } else {
+    // ========== STEP 6: Rerank (20 → 10) + Diversity Selection (MMR) ==========
+    rankedDocs = await rankCandidates(searchQuery, candidates, topK, options, queryLog);
+
+    // ========== STEP 7: Add to Cache ==========
+    const cacheAddStep = startStep(queryLog, 'Add to Cache');
+    addToCache(standaloneQuestion, questionEmbedding, rankedDocs, retrievalKey);
+    endStep(queryLog, cacheAddStep);
+  }
+
+  // ========== STEP 7b: Chunk Expansion (neighbors / parent section) ==========
+  // Runs after the cache so cached hits are expanded with the current settings
+  const expansion: ExpansionConfig = { ...DEFAULT_EXPANSION_CONFIG, ...options.expansion };
+  if (expansion.mode !== 'none') {
+    const expansionStep = startStep(queryLog, 'Chunk Expansion', {
+      mode: expansion.mode,
+      window: expansion.mode === 'neighbors' ? expansion.window : undefined,
+      parentSize: expansion.mode === 'parent' ? expansion.parentSize : undefined
+    });
+    const hitCount = rankedDocs.length;
+    rankedDocs = await expandChunks(rankedDocs, expansion);
+    endStep(queryLog, expansionStep, {
+      hits: hitCount,
+      passages: rankedDocs.length
+    });
+  }
+
+  // ========== STEP 8: Build Context (token budget) ==========
+  const contextStep = startStep(queryLog, 'Build Context');
+  const built = buildContext(
+    rankedDocs,
+    formatContext,
+    options.contextBudget ? { maxTokens: options.contextBudget } : {}
+  );
+  endStep(queryLog, contextStep, {
+    budget: built.budget,
+    usedTokens: built.usedTokens,
+    included: built.included,
+    excluded: built.excluded
+  });
+
+  // Sources only list the passages the LLM actually saw
+  const sources: ChatResponse['sources'] = built.documents.map(doc => ({
+    fileName: getDisplayFileName(doc),
+    lineNumber: parseInt(doc.metadata.lineNumber || '0', 10),
+    page: doc.metadata.page !== undefined ? Number(doc.metadata.page) : undefined,
+    lineInPage: doc.metadata.lineInPage !== undefined ? Number(doc.metadata.lineInPage) : undefined,
+    headingPath: doc.metadata.headingPath || undefined,
+    storagePath: doc.metadata.storagePath || undefined,
+    downloadUrl: options.citationLinks ? getCitationLink(doc) : undefined,
+    text: doc.metadata.text.substring(0, 200) + '...',
+    score: doc.finalScore
+  }));
+
+  return { sources, contexts: built.contexts };
+}
+
+// Helper to link a source to its document; PDF viewers open the `#page=N` fragment
+function getCitationLink(doc: RankedDocument): string | undefined {
+  if (!doc.metadata.storagePath || doc.metadata.pineconeOnly === 'true') return undefined;
+
+  const { url } = createSignedDownloadLink(doc.metadata.storagePath, CITATION_LINK_EXPIRY_SECONDS, 'inline');
+  return doc.metadata.page !== undefined ? `${url}#page=${doc.metadata.page}` : url;
+}
+
+// Helper to build the folder/fileName shown in sources and context headers
+function getDisplayFileName(doc: RankedDocument): string {
+  const folder = doc.metadata.folder ? `${doc.metadata.folder}/` : '';
+  return `${folder}${doc.metadata.fileName}`;
+}
+
+// Helper to format one passage of the LLM context
+function formatContext(doc: RankedDocument): string {
+  const section = doc.metadata.headingPath ? `, section "${doc.metadata.headingPath}"` : '';
+  const chunks = doc.metadata.chunkRange ? `, chunks ${doc.metadata.chunkRange}` : '';
+  const location = doc.metadata.page !== undefined
+    ? `page ${doc.metadata.page}, line ${doc.metadata.lineInPage}`
+    : `line ${doc.metadata.lineNumber}`;
+  return `[From ${getDisplayFileName(doc)}${section}, ${location}${chunks}]: ${doc.metadata.text}`;
+}
+
+// Helper to build the prompt sent to the LLM, with the trimmed conversation before the current question
+function buildAnswerMessages(question: string, contexts: string[], history: ChatMessage[]): ChatMessage[] {
   const contextText = contexts.join('\n\n');
   const systemPrompt = `You are a helpful assistant for Algerie Telecom that answers questions based on the provided document context. 
 Don't cite the source file name and line number.
-If the answer cannot be found in the provided context, say so clearly. Also answer with the same language as the question.`;
+If the answer cannot be found in the provided context, say so clearly. Also answer with the same language as the question.
+The previous messages are the earlier turns of the conversation; use them to understand follow-up questions.`;
 
-  const messages: ChatMessage[] = [
+  return [
     { role: 'system', content: systemPrompt },
+    ...history,
     {
       role: 'user',
       content: `Context from documents:\n\n${contextText}\n\nQuestion: ${question}\n\nPlease provide a detailed answer and mention the file name and line number for each piece of information you reference.`,
     },
   ];
+}
 
-  return await chatWithDeepSeek(messages);
+// Helper function to generate LLM response
+async function generateLLMResponse(question: string, contexts: string[], history: ChatMessage[] = []): Promise<string> {
+  const messages = buildAnswerMessages(question, contexts, history);
+  return await getLlmProvider().chat(messages);
+}
+
+// Helper to append the answered turn to the caller's room; a storage failure never fails the answer
+async function persistTurn(
+  room: ChatOptions['room'],
+  question: string,
+  answer: string,
+  sources: ChatResponse['sources'],
+  queryLog: ChatResponse['queryLog']
+): Promise<string | undefined> {
+  if (!room || !answer) return undefined;
+
+  try {
+    return await appendTurnToRoom(room.id, room.userId, { question, answer, sources, queryLog });
+  } catch (error) {
+    logger.error(`Failed to store chat turn in room ${room.id}:`, error);
+    return undefined;
+  }
 }
 
 // Helper to build query log summary for response
@@ -373,6 +344,7 @@ function buildQueryLogSummary(log: QueryLog) {
     queryId: log.queryId,
     totalDuration: log.totalDuration || 0,
     cacheHit: log.cacheHit,
+    filters: log.filters as RetrievalFilters | undefined,
     steps: log.steps.map(s => ({ name: s.name, duration: s.duration || 0 }))
   };
 }
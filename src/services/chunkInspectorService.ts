@@ -0,0 +1,153 @@
+import { getDocumentStore, DocumentRecord } from '../providers/documentStore';
+import { getVectorStore, VectorMetadata } from '../providers/vectorStore';
+import { chunkDocument, ChunkerOptions, DEFAULT_CHUNKER_OPTIONS } from '../utils/textChunker';
+import { buildChunkMetadata } from './indexingService';
+import { getChunkIdPrefix } from './documentService';
+import { parseStoredDocument, VersionNotFoundError } from './versionService';
+
+/**
+ * Debugging views of a document's chunks: what is in the vector store, and what
+ * the parser and chunker produce from the stored file today (dry run, nothing is
+ * embedded or written).
+ */
+
+const MAX_CHUNK_SIZE = 10000;
+
+export interface ChunkView {
+  id?: string; // vector id, for indexed chunks
+  chunkIndex: number;
+  lineNumber: number;
+  text: string;
+  length: number;
+  metadata: VectorMetadata; // everything stored with the vector except the text
+}
+
+export interface IndexedChunks {
+  document: DocumentRecord;
+  chunks: ChunkView[];
+}
+
+export interface ChunkingComparison {
+  indexedChunks: number;
+  dryRunChunks: number;
+  unchangedChunks: number;
+  // Chunk indexes whose text differs, or that exist on one side only
+  changedChunkIndexes: number[];
+}
+
+export interface ChunkingDryRun {
+  document: DocumentRecord;
+  options: ChunkerOptions;
+  chunks: ChunkView[];
+  comparison: ChunkingComparison;
+}
+
+export class InvalidChunkerOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidChunkerOptionsError';
+  }
+}
+
+function toChunkView(metadata: VectorMetadata, id?: string): ChunkView {
+  const { text, ...rest } = metadata;
+  const chunkText = String(text ?? '');
+
+  return {
+    ...(id !== undefined && { id }),
+    chunkIndex: Number(metadata.chunkIndex),
+    lineNumber: Number(metadata.lineNumber),
+    text: chunkText,
+    length: chunkText.length,
+    metadata: rest,
+  };
+}
+
+async function getRecord(id: string): Promise<DocumentRecord> {
+  const record = await getDocumentStore().get(id);
+  if (!record) throw new VersionNotFoundError(id);
+  return record;
+}
+
+async function fetchIndexedChunks(storagePath: string): Promise<ChunkView[]> {
+  const vectorStore = getVectorStore();
+  const ids = await vectorStore.listIds(getChunkIdPrefix(storagePath));
+  if (ids.length === 0) return [];
+
+  const vectors = await vectorStore.fetch(ids);
+  return vectors
+    .map(vector => toChunkView(vector.metadata || {}, vector.id))
+    .sort((a, b) => a.chunkIndex - b.chunkIndex);
+}
+
+/**
+ * Chunks of a document as stored in the vector store, in chunk order.
+ * Only active versions have chunks.
+ */
+export async function getIndexedChunks(id: string): Promise<IndexedChunks> {
+  const document = await getRecord(id);
+  return { document, chunks: await fetchIndexedChunks(document.storagePath) };
+}
+
+/**
+ * Parse chunker options from query string parameters (chunkSize, overlap);
+ * omitted values use the chunker defaults.
+ */
+export function parseChunkerOptions(params: Record<string, unknown>): ChunkerOptions {
+  const read = (name: keyof ChunkerOptions, min: number): number => {
+    const value = params[name];
+    if (value === undefined || value === '') return DEFAULT_CHUNKER_OPTIONS[name];
+
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < min || number > MAX_CHUNK_SIZE) {
+      throw new InvalidChunkerOptionsError(`${name} must be an integer between ${min} and ${MAX_CHUNK_SIZE}`);
+    }
+    return number;
+  };
+
+  const options = { chunkSize: read('chunkSize', 1), overlap: read('overlap', 0) };
+  if (options.overlap >= options.chunkSize) {
+    throw new InvalidChunkerOptionsError('overlap must be smaller than chunkSize');
+  }
+  return options;
+}
+
+function compareChunks(indexed: ChunkView[], dryRun: ChunkView[]): ChunkingComparison {
+  const indexedTexts = new Map(indexed.map(chunk => [chunk.chunkIndex, chunk.text]));
+  const dryRunTexts = new Map(dryRun.map(chunk => [chunk.chunkIndex, chunk.text]));
+  const chunkIndexes = new Set([...indexedTexts.keys(), ...dryRunTexts.keys()]);
+
+  const changedChunkIndexes = Array.from(chunkIndexes)
+    .filter(chunkIndex => indexedTexts.get(chunkIndex) !== dryRunTexts.get(chunkIndex))
+    .sort((a, b) => a - b);
+
+  return {
+    indexedChunks: indexed.length,
+    dryRunChunks: dryRun.length,
+    unchangedChunks: chunkIndexes.size - changedChunkIndexes.length,
+    changedChunkIndexes,
+  };
+}
+
+/**
+ * Re-run the parser and chunker on the stored file of a document, without
+ * embedding or indexing anything, and compare the result with the indexed chunks.
+ * Throws StorageObjectNotFoundError when the stored file is missing.
+ */
+export async function dryRunChunking(id: string, options: ChunkerOptions = DEFAULT_CHUNKER_OPTIONS): Promise<ChunkingDryRun> {
+  const document = await getRecord(id);
+
+  const [parsedDoc, indexed] = await Promise.all([
+    parseStoredDocument(document.storagePath, document.fileName),
+    fetchIndexedChunks(document.storagePath),
+  ]);
+  const target = {
+    storagePath: document.storagePath,
+    folder: document.folder,
+    fileType: document.fileType,
+    uploadedAt: Date.parse(document.createdAt),
+  };
+  const chunks = chunkDocument(parsedDoc, options).map(chunk => toChunkView(buildChunkMetadata(chunk, target)));
+
+  return { document, options, chunks, comparison: compareChunks(indexed, chunks) };
+}
@@ -0,0 +1,181 @@
+import { supabase } from '../config/supabase';
+import { ChatMessage } from '../providers/llm';
+import logger from '../utils/logger';
+import { randomUUID } from 'crypto';
+
+export interface ConversationHistoryOptions {
+  maxTurns: number;
+  maxChars: number;
+}
+
+const DEFAULT_HISTORY_OPTIONS: ConversationHistoryOptions = {
+  maxTurns: 6,
+  maxChars: 6000
+};
+
+export interface RoomTurn {
+  question: string;
+  answer: string;
+  sources: unknown[];
+  queryLog?: unknown;
+}
+
+const PERSIST_ATTEMPTS = 2;
+
+export class RoomNotFoundError extends Error {
+  constructor(roomId: string) {
+    super(`Room not found or access denied: ${roomId}`);
+    this.name = 'RoomNotFoundError';
+  }
+}
+
+/**
+ * Extract the text of a stored room entry.
+ * Entries are plain strings or objects carrying the text in `content`, `text` or `answer`.
+ */
+function getEntryText(entry: unknown): string {
+  if (typeof entry === 'string') return entry;
+  if (entry && typeof entry === 'object') {
+    const record = entry as Record<string, unknown>;
+    const text = record.content ?? record.text ?? record.answer ?? record.question;
+    if (typeof text === 'string') return text;
+  }
+  return '';
+}
+
+/**
+ * Load the earlier turns of a room as chat messages.
+ * userAnswers[i] is paired with aiAnswers[i]; a trailing question without answer is dropped.
+ */
+export async function loadRoomHistory(roomId: string, userId: string): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from('history')
+    .select('aiAnswers, userAnswers')
+    .eq('id', roomId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !data) {
+    logger.warn(`[Conversation] Room ${roomId} not found for user ${userId}`, error?.message);
+    throw new RoomNotFoundError(roomId);
+  }
+
+  const userAnswers: unknown[] = Array.isArray(data.userAnswers) ? data.userAnswers : [];
+  const aiAnswers: unknown[] = Array.isArray(data.aiAnswers) ? data.aiAnswers : [];
+  const messages: ChatMessage[] = [];
+
+  const turnCount = Math.min(userAnswers.length, aiAnswers.length);
+  for (let i = 0; i < turnCount; i++) {
+    const question = getEntryText(userAnswers[i]);
+    const answer = getEntryText(aiAnswers[i]);
+    if (!question || !answer) continue;
+    messages.push({ role: 'user', content: question });
+    messages.push({ role: 'assistant', content: answer });
+  }
+
+  logger.log(`[Conversation] Loaded ${messages.length / 2} turns from room ${roomId}`);
+  return messages;
+}
+
+/**
+ * Validate a client-supplied message history.
+ * Keeps only user/assistant messages with string content.
+ */
+export function normalizeHistory(raw: unknown): ChatMessage[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((message): message is { role: string; content: string } =>
+      !!message &&
+      typeof message === 'object' &&
+      (message.role === 'user' || message.role === 'assistant') &&
+      typeof message.content === 'string' &&
+      message.content.trim().length > 0
+    )
+    .map(message => ({
+      role: message.role as ChatMessage['role'],
+      content: message.content
+    }));
+}
+
+/**
+ * Keep the most recent turns that fit in the configured budget.
+ * Long answers are truncated so one verbose turn can't push out the rest.
+ */
+export function trimHistory(
+  messages: ChatMessage[],
+  options: Partial<ConversationHistoryOptions> = {}
+): ChatMessage[] {
+  const { maxTurns, maxChars } = { ...DEFAULT_HISTORY_OPTIONS, ...options };
+  const maxMessageChars = Math.floor(maxChars / 2);
+
+  const recent = messages.slice(-maxTurns * 2);
+  const trimmed: ChatMessage[] = [];
+  let totalChars = 0;
+
+  // Walk backwards so the latest turns are kept first
+  for (let i = recent.length - 1; i >= 0; i--) {
+    const message = recent[i];
+    const content = message.content.length > maxMessageChars
+      ? message.content.substring(0, maxMessageChars) + '...'
+      : message.content;
+
+    if (totalChars + content.length > maxChars) break;
+
+    totalChars += content.length;
+    trimmed.unshift({ role: message.role, content });
+  }
+
+  // Never start the conversation with a dangling assistant message
+  while (trimmed.length > 0 && trimmed[0].role !== 'user') {
+    trimmed.shift();
+  }
+
+  return trimmed;
+}
+
+/**
+ * Append a question/answer turn to a room owned by the user.
+ * The question goes to userAnswers and the answer (with sources and query log) to aiAnswers,
+ * both tagged with the same message id. Returns that id.
+ * The append runs in the database (append_room_turn, see README), so concurrent turns
+ * in the same room never overwrite each other.
+ */
+export async function appendTurnToRoom(roomId: string, userId: string, turn: RoomTurn): Promise<string> {
+  const messageId = randomUUID();
+  const createdAt = new Date().toISOString();
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= PERSIST_ATTEMPTS; attempt++) {
+    try {
+      const { data: appended, error: appendError } = await supabase.rpc('append_room_turn', {
+        room_id: roomId,
+        owner_id: userId,
+        user_entry: { id: messageId, content: turn.question, createdAt },
+        ai_entry: {
+          id: messageId,
+          content: turn.answer,
+          sources: turn.sources,
+          queryLog: turn.queryLog,
+          createdAt
+        }
+      });
+
+      if (appendError) {
+        throw new Error(appendError.message);
+      }
+      if (!appended) {
+        throw new RoomNotFoundError(roomId);
+      }
+
+      logger.log(`[Conversation] Stored message ${messageId} in room ${roomId}`);
+      return messageId;
+    } catch (error) {
+      lastError = error;
+      if (error instanceof RoomNotFoundError) break;
+      logger.warn(`[Conversation] Failed to store turn in room ${roomId} (attempt ${attempt}/${PERSIST_ATTEMPTS})`, error);
+    }
+  }
+
+  throw lastError;
+}
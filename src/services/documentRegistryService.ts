@@ -0,0 +1,132 @@
+import {
+  getDocumentStore, DocumentListQuery, DocumentRecord, DocumentSortField, DocumentStatus
+} from '../providers/documentStore';
+import { sanitizeFolderPath } from './uploadService';
+
+/**
+ * Listing of the document registry: one record per uploaded file version, written
+ * by the upload pipeline. Files stored before the registry existed, and re-pinecone
+ * uploads, have no record.
+ */
+
+export interface DocumentListResult {
+  documents: DocumentRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const SORT_FIELDS: DocumentSortField[] = ['createdAt', 'updatedAt', 'fileName', 'size', 'pageCount', 'chunksCount'];
+const STATUSES: DocumentStatus[] = ['processing', 'active', 'superseded', 'failed'];
+// Superseded versions are only listed on request (see GET /api/documents/versions)
+const DEFAULT_STATUSES: DocumentStatus[] = ['processing', 'active', 'failed'];
+
+export class InvalidDocumentQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidDocumentQueryError';
+  }
+}
+
+function getString(params: Record<string, unknown>, name: string): string | undefined {
+  const value = params[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw new InvalidDocumentQueryError(`${name} must be a single value`);
+  return value.trim();
+}
+
+function getPositiveInteger(params: Record<string, unknown>, name: string, fallback: number, max?: number): number {
+  const value = getString(params, name);
+  if (value === undefined || value === '') return fallback;
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1 || (max !== undefined && number > max)) {
+    throw new InvalidDocumentQueryError(
+      max === undefined ? `${name} must be a positive integer` : `${name} must be an integer between 1 and ${max}`
+    );
+  }
+  return number;
+}
+
+function getTimestamp(params: Record<string, unknown>, name: string): string | undefined {
+  const value = getString(params, name);
+  if (!value) return undefined;
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new InvalidDocumentQueryError(`${name} must be a date (ISO 8601)`);
+  return new Date(time).toISOString();
+}
+
+function getStatuses(params: Record<string, unknown>): DocumentStatus[] {
+  const value = getString(params, 'status');
+  if (!value) return DEFAULT_STATUSES;
+
+  const statuses = value.split(',').map(status => status.trim());
+  const invalid = statuses.find(status => !STATUSES.includes(status as DocumentStatus));
+  if (invalid !== undefined) {
+    throw new InvalidDocumentQueryError(`Unknown status "${invalid}". Expected: ${STATUSES.join(', ')}`);
+  }
+  return statuses as DocumentStatus[];
+}
+
+/**
+ * Parse list parameters as received in a query string. Throws InvalidDocumentQueryError.
+ */
+function parseListQuery(params: Record<string, unknown>): DocumentListQuery & { page: number } {
+  const page = getPositiveInteger(params, 'page', 1);
+  const pageSize = getPositiveInteger(params, 'pageSize', DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+  const sortBy = getString(params, 'sortBy') || 'createdAt';
+  if (!SORT_FIELDS.includes(sortBy as DocumentSortField)) {
+    throw new InvalidDocumentQueryError(`sortBy must be one of ${SORT_FIELDS.join(', ')}`);
+  }
+  const sortOrder = getString(params, 'order') || 'desc';
+  if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+    throw new InvalidDocumentQueryError('order must be "asc" or "desc"');
+  }
+
+  // Folders are matched as stored, i.e. sanitized like uploads; "" or "/" is the root
+  const folder = getString(params, 'folder');
+  const fileType = getString(params, 'fileType');
+
+  return {
+    page,
+    folder: folder === undefined ? undefined : sanitizeFolderPath(folder),
+    includeSubfolders: getString(params, 'recursive') === 'true',
+    statuses: getStatuses(params),
+    fileType: fileType ? fileType.replace(/^\./, '').toLowerCase() : undefined,
+    uploadedBy: getString(params, 'uploadedBy') || undefined,
+    search: getString(params, 'search') || undefined,
+    createdAfter: getTimestamp(params, 'createdAfter'),
+    createdBefore: getTimestamp(params, 'createdBefore'),
+    sortBy: sortBy as DocumentSortField,
+    sortOrder,
+    offset: (page - 1) * pageSize,
+    limit: pageSize,
+  };
+}
+
+/**
+ * One page of document records matching the query string parameters
+ * (see GET /api/documents for the parameters).
+ */
+export async function listDocuments(params: Record<string, unknown>): Promise<DocumentListResult> {
+  const { page, ...query } = parseListQuery(params);
+  const { records, total } = await getDocumentStore().list(query);
+
+  return {
+    documents: records,
+    total,
+    page,
+    pageSize: query.limit,
+    totalPages: Math.ceil(total / query.limit),
+  };
+}
+
+export async function getDocumentRecord(id: string): Promise<DocumentRecord | null> {
+  return getDocumentStore().get(id);
+}
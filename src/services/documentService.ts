@@ -0,0 +1,123 @@
+import { getStorageProvider } from '../providers/storage';
+import { getVectorStore } from '../providers/vectorStore';
+import { getDocumentStore } from '../providers/documentStore';
+import { removeFromKeywordIndex } from './keywordIndexService';
+import { invalidateCacheForDocument } from './cacheService';
+import logger from '../utils/logger';
+
+export interface DeleteDocumentResult {
+  storagePath: string;
+  storageDeleted: boolean;
+  vectorsDeleted: number;
+  keywordEntriesDeleted: number;
+  cacheEntriesInvalidated: number;
+  versionRecordsDeleted: number;
+}
+
+export interface IndexRemovalResult {
+  vectorsDeleted: number;
+  keywordEntriesDeleted: number;
+  cacheEntriesInvalidated: number;
+}
+
+export class DocumentNotFoundError extends Error {
+  constructor(storagePath: string) {
+    super(`Document not found: ${storagePath}`);
+    this.name = 'DocumentNotFoundError';
+  }
+}
+
+export class InvalidStoragePathError extends Error {
+  constructor(storagePath: string) {
+    super(`Invalid storage path: ${storagePath}`);
+    this.name = 'InvalidStoragePathError';
+  }
+}
+
+/**
+ * Vector ids of a document's chunks all start with this prefix.
+ */
+export function getChunkIdPrefix(storagePath: string): string {
+  return `${storagePath}-chunk-`;
+}
+
+/**
+ * Reject empty paths, absolute paths and `..` segments.
+ */
+export function validateStoragePath(storagePath: unknown): string {
+  if (typeof storagePath !== 'string') throw new InvalidStoragePathError(String(storagePath));
+
+  const trimmed = storagePath.trim();
+  const segments = trimmed.split('/');
+  if (!trimmed || trimmed.startsWith('/') || segments.some(segment => !segment || segment === '.' || segment === '..')) {
+    throw new InvalidStoragePathError(storagePath);
+  }
+  return trimmed;
+}
+
+/**
+ * Make a document unretrievable without touching its stored file: delete its
+ * vectors and keyword index entries and the cached retrievals that returned it.
+ * Pass `vectorIds` when they were already listed.
+ */
+export async function removeDocumentFromIndexes(storagePath: string, vectorIds?: string[]): Promise<IndexRemovalResult> {
+  const vectorStore = getVectorStore();
+  const idPrefix = getChunkIdPrefix(storagePath);
+  const ids = vectorIds ?? await vectorStore.listIds(idPrefix);
+
+  if (ids.length > 0) {
+    await vectorStore.deleteByIds(ids);
+  }
+  const keywordEntriesDeleted = await removeFromKeywordIndex(idPrefix);
+  const cacheEntriesInvalidated = invalidateCacheForDocument(storagePath);
+
+  return { vectorsDeleted: ids.length, keywordEntriesDeleted, cacheEntriesInvalidated };
+}
+
+/**
+ * Delete a document everywhere it lives: the storage object, its vectors
+ * (ids `${storagePath}-chunk-N`), its keyword index entries and the cached
+ * retrievals that returned it, plus its document record. Documents indexed with `re-pinecone` have no
+ * storage object or record; their vectors are still removed.
+ * Throws DocumentNotFoundError when none of a storage object, vectors or a record exist.
+ */
+export async function deleteDocument(storagePath: string): Promise<DeleteDocumentResult> {
+  const path = validateStoragePath(storagePath);
+  const storage = getStorageProvider();
+  const vectorStore = getVectorStore();
+  const documentStore = getDocumentStore();
+  const idPrefix = getChunkIdPrefix(path);
+
+  const [storedObject, vectorIds, records] = await Promise.all([
+    storage.stat(path),
+    vectorStore.listIds(idPrefix),
+    documentStore.find({ storagePath: path })
+  ]);
+
+  if (!storedObject && vectorIds.length === 0 && records.length === 0) {
+    throw new DocumentNotFoundError(path);
+  }
+
+  // Vectors first: once they are gone the document can no longer be retrieved,
+  // even if removing the stored file fails afterwards
+  const removal = await removeDocumentFromIndexes(path, vectorIds);
+
+  if (storedObject) {
+    await storage.delete([path]);
+  }
+
+  // Other versions of the document keep their records (and history)
+  await documentStore.delete(records.map(record => record.id));
+
+  logger.log(
+    `[Documents] Deleted ${path}: storage=${!!storedObject}, vectors=${removal.vectorsDeleted}, ` +
+    `keyword=${removal.keywordEntriesDeleted}, cache=${removal.cacheEntriesInvalidated}, records=${records.length}`
+  );
+
+  return {
+    storagePath: path,
+    storageDeleted: !!storedObject,
+    ...removal,
+    versionRecordsDeleted: records.length
+  };
+}
@@ -0,0 +1,122 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import path from 'path';
+import dotenv from 'dotenv';
+import logger from '../utils/logger';
+
+dotenv.config({ path: '.env.local' });
+
+/**
+ * Time-limited signed download links. A link carries its expiry time and the
+ * HMAC-SHA256 of (storage path, expiry, disposition), so it can't be reused for
+ * another file or after it expires. Signed with DOWNLOAD_SIGNING_SECRET; without
+ * it a random secret is generated and links stop working when the server restarts.
+ */
+
+export type ContentDisposition = 'inline' | 'attachment';
+
+export interface SignedDownloadLink {
+  url: string; // relative to the API origin
+  expiresAt: string;
+}
+
+export const DEFAULT_LINK_EXPIRY_SECONDS = 15 * 60;
+export const MAX_LINK_EXPIRY_SECONDS = 7 * 24 * 60 * 60;
+
+export class InvalidSignatureError extends Error {
+  constructor(reason: string) {
+    super(`Invalid download link: ${reason}`);
+    this.name = 'InvalidSignatureError';
+  }
+}
+
+let signingSecret: string | null = null;
+
+function getSigningSecret(): string {
+  if (!signingSecret) {
+    signingSecret = process.env.DOWNLOAD_SIGNING_SECRET || '';
+    if (!signingSecret) {
+      logger.warn('[Download] DOWNLOAD_SIGNING_SECRET is not set; signed links will not survive a restart');
+      signingSecret = randomBytes(32).toString('hex');
+    }
+  }
+  return signingSecret;
+}
+
+/**
+ * Whether direct downloads must carry a valid signature (DOWNLOAD_REQUIRE_SIGNATURE=true).
+ */
+export function isSignatureRequired(): boolean {
+  return process.env.DOWNLOAD_REQUIRE_SIGNATURE === 'true';
+}
+
+function sign(storagePath: string, expires: number, disposition: ContentDisposition): string {
+  return createHmac('sha256', getSigningSecret())
+    .update(`${storagePath}\n${expires}\n${disposition}`)
+    .digest('base64url');
+}
+
+// Encode each segment but keep the slashes, so the path stays readable in the URL
+export function encodeStoragePath(storagePath: string): string {
+  return storagePath.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Build a signed link to GET /api/download/:storagePath valid for `expiresIn` seconds.
+ */
+export function createSignedDownloadLink(
+  storagePath: string,
+  expiresIn: number = DEFAULT_LINK_EXPIRY_SECONDS,
+  disposition: ContentDisposition = 'attachment'
+): SignedDownloadLink {
+  const expires = Math.floor(Date.now() / 1000) + expiresIn;
+  const query = new URLSearchParams({
+    disposition,
+    expires: String(expires),
+    signature: sign(storagePath, expires, disposition),
+  });
+
+  return {
+    url: `/api/download/${encodeStoragePath(storagePath)}?${query}`,
+    expiresAt: new Date(expires * 1000).toISOString(),
+  };
+}
+
+/**
+ * Check the signature and expiry of a signed link. Throws InvalidSignatureError.
+ */
+export function verifyDownloadSignature(
+  storagePath: string,
+  expires: unknown,
+  disposition: ContentDisposition,
+  signature: unknown
+): void {
+  const expiresAt = Number(expires);
+  if (typeof signature !== 'string' || !Number.isInteger(expiresAt)) {
+    throw new InvalidSignatureError('missing expires or signature');
+  }
+
+  const expected = Buffer.from(sign(storagePath, expiresAt, disposition));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new InvalidSignatureError('signature mismatch');
+  }
+  if (expiresAt < Date.now() / 1000) {
+    throw new InvalidSignatureError('link expired');
+  }
+}
+
+/**
+ * File name offered to the browser: the stored name without its upload timestamp
+ * ("1700000000000-offres.pdf" → "offres.pdf").
+ */
+export function getDownloadFileName(storagePath: string): string {
+  return path.posix.basename(storagePath).replace(/^\d{13}-/, '');
+}
+
+/**
+ * Content-Disposition header value, with an ASCII fallback and the UTF-8 name (RFC 6266).
+ */
+export function formatContentDisposition(disposition: ContentDisposition, fileName: string): string {
+  const asciiName = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
@@ -0,0 +1,301 @@
+import path from 'path';
+import { getStorageProvider, FOLDER_PLACEHOLDER } from '../providers/storage';
+import { getVectorStore, VectorRecord } from '../providers/vectorStore';
+import { getDocumentStore } from '../providers/documentStore';
+import { KeywordIndexRecord } from './keywordIndexService';
+import { storeVectorRecords } from './indexingService';
+import { deleteDocument, getChunkIdPrefix, removeDocumentFromIndexes } from './documentService';
+import { getDocumentKey } from './versionService';
+import { sanitizeFolderPath } from './uploadService';
+import { runInIngestionQueue } from './ingestionJobService';
+import logger from '../utils/logger';
+
+/**
+ * Folders of the document library. Storage has no real folders: a folder exists
+ * while a stored object (or a FOLDER_PLACEHOLDER object, for empty folders) has
+ * a path under it. Vector ids start with the storage path and vector metadata
+ * carries `folder` and `storagePath`, so renaming a folder re-keys the vectors
+ * of every document in it.
+ */
+
+export interface FolderNode {
+  name: string;
+  path: string; // '' for the root
+  documentCount: number; // documents directly in this folder
+  totalDocumentCount: number; // including subfolders
+  children: FolderNode[];
+}
+
+export interface MoveFolderResult {
+  from: string;
+  to: string;
+  documentsMoved: number;
+  vectorsMoved: number;
+}
+
+export interface DeleteFolderResult {
+  folder: string;
+  documentsDeleted: number;
+  vectorsDeleted: number;
+}
+
+export class InvalidFolderPathError extends Error {
+  constructor(folderPath: string, reason: string = 'Invalid folder path') {
+    super(`${reason}: ${folderPath}`);
+    this.name = 'InvalidFolderPathError';
+  }
+}
+
+export class FolderNotFoundError extends Error {
+  constructor(folderPath: string) {
+    super(`Folder not found: ${folderPath}`);
+    this.name = 'FolderNotFoundError';
+  }
+}
+
+export class FolderExistsError extends Error {
+  constructor(folderPath: string) {
+    super(`Folder already exists: ${folderPath}`);
+    this.name = 'FolderExistsError';
+  }
+}
+
+export class FolderNotEmptyError extends Error {
+  constructor(folderPath: string, documentCount: number) {
+    super(`Folder ${folderPath} contains ${documentCount} documents; delete them first or pass recursive=true`);
+    this.name = 'FolderNotEmptyError';
+  }
+}
+
+/**
+ * Validate and sanitize a folder path the same way uploads do ("Clients/Entreprise").
+ */
+export function normalizeFolderPath(folderPath: unknown): string {
+  if (typeof folderPath !== 'string') throw new InvalidFolderPathError(String(folderPath));
+  if (folderPath.split('/').some(segment => segment === '.' || segment === '..')) {
+    throw new InvalidFolderPathError(folderPath);
+  }
+
+  const normalized = sanitizeFolderPath(folderPath);
+  if (!normalized) throw new InvalidFolderPathError(folderPath);
+  return normalized;
+}
+
+function isPlaceholder(storagePath: string): boolean {
+  return path.posix.basename(storagePath) === FOLDER_PLACEHOLDER;
+}
+
+// Storage path of a vector id (`${storagePath}-chunk-N`)
+function toStoragePath(vectorId: string): string {
+  return vectorId.replace(/-chunk-\d+$/, '');
+}
+
+/**
+ * Everything under a folder: stored documents and placeholders, plus documents
+ * that only have vectors (re-pinecone uploads).
+ */
+async function getFolderContents(folder: string): Promise<{ documentPaths: string[]; placeholders: string[] }> {
+  const [objects, vectorIds] = await Promise.all([
+    getStorageProvider().list(folder, { recursive: true, includePlaceholders: true }),
+    getVectorStore().listIds(`${folder}/`),
+  ]);
+
+  const placeholders = objects.filter(object => isPlaceholder(object.path)).map(object => object.path);
+  const documentPaths = new Set(objects.filter(object => !isPlaceholder(object.path)).map(object => object.path));
+  for (const id of vectorIds) {
+    documentPaths.add(toStoragePath(id));
+  }
+
+  return { documentPaths: Array.from(documentPaths).sort(), placeholders };
+}
+
+function isEmpty(contents: { documentPaths: string[]; placeholders: string[] }): boolean {
+  return contents.documentPaths.length === 0 && contents.placeholders.length === 0;
+}
+
+/**
+ * Folder tree of the stored documents, with document counts. Superseded versions
+ * (kept in storage for rollback) are not counted.
+ */
+export async function getFolderTree(): Promise<FolderNode> {
+  const [objects, superseded] = await Promise.all([
+    getStorageProvider().list('', { recursive: true, includePlaceholders: true }),
+    getDocumentStore().find({ status: 'superseded' }),
+  ]);
+  const supersededPaths = new Set(superseded.map(record => record.storagePath));
+
+  const root: FolderNode = { name: '', path: '', documentCount: 0, totalDocumentCount: 0, children: [] };
+  const nodes = new Map<string, FolderNode>([['', root]]);
+
+  const getNode = (folder: string): FolderNode => {
+    const existing = nodes.get(folder);
+    if (existing) return existing;
+
+    const parent = getNode(folder.includes('/') ? folder.slice(0, folder.lastIndexOf('/')) : '');
+    const node: FolderNode = {
+      name: path.posix.basename(folder),
+      path: folder,
+      documentCount: 0,
+      totalDocumentCount: 0,
+      children: [],
+    };
+    parent.children.push(node);
+    nodes.set(folder, node);
+    return node;
+  };
+
+  for (const object of objects) {
+    const folder = path.posix.dirname(object.path) === '.' ? '' : path.posix.dirname(object.path);
+    const node = getNode(folder);
+    if (isPlaceholder(object.path) || supersededPaths.has(object.path)) continue;
+
+    node.documentCount++;
+    // Count the document in every enclosing folder
+    for (let current = folder; ; current = current.includes('/') ? current.slice(0, current.lastIndexOf('/')) : '') {
+      nodes.get(current)!.totalDocumentCount++;
+      if (!current) break;
+    }
+  }
+
+  const sortChildren = (node: FolderNode) => {
+    node.children.sort((a, b) => a.name.localeCompare(b.name));
+    node.children.forEach(sortChildren);
+  };
+  sortChildren(root);
+
+  return root;
+}
+
+/**
+ * Create an empty folder (a placeholder object). Parent folders are implied.
+ */
+export async function createFolder(folderPath: unknown): Promise<string> {
+  const folder = normalizeFolderPath(folderPath);
+
+  if (!isEmpty(await getFolderContents(folder))) {
+    throw new FolderExistsError(folder);
+  }
+
+  await getStorageProvider().put(`${folder}/${FOLDER_PLACEHOLDER}`, Buffer.alloc(0), {
+    contentType: 'text/plain',
+  });
+  logger.log(`[Folders] Created ${folder}`);
+  return folder;
+}
+
+/**
+ * Move one document to a new storage path: its vectors are copied under new ids
+ * with updated `folder`/`storagePath` metadata, the stored object is moved, then
+ * the old vectors, keyword entries and cached retrievals are removed and the
+ * version records updated. Returns the number of vectors moved.
+ */
+async function moveDocument(fromPath: string, toPath: string, toFolder: string): Promise<number> {
+  const storage = getStorageProvider();
+  const vectorStore = getVectorStore();
+  const fromPrefix = getChunkIdPrefix(fromPath);
+
+  const vectorIds = await vectorStore.listIds(fromPrefix);
+  const vectors = await vectorStore.fetch(vectorIds);
+  const moved: Array<VectorRecord & KeywordIndexRecord> = vectors.map(vector => ({
+    id: `${getChunkIdPrefix(toPath)}${vector.id.slice(fromPrefix.length)}`,
+    values: vector.values,
+    metadata: { ...vector.metadata, folder: toFolder, storagePath: toPath, text: String(vector.metadata?.text ?? '') },
+  }));
+
+  if (moved.length > 0) {
+    await storeVectorRecords(moved, '[Folders] ');
+  }
+
+  try {
+    if (await storage.stat(fromPath)) {
+      await storage.move(fromPath, toPath);
+    }
+  } catch (error) {
+    // Keep the document where it was: drop the copies made above
+    await removeDocumentFromIndexes(toPath);
+    throw error;
+  }
+
+  await removeDocumentFromIndexes(fromPath, vectorIds);
+
+  const documentStore = getDocumentStore();
+  for (const record of await documentStore.find({ storagePath: fromPath })) {
+    await documentStore.update(record.id, {
+      storagePath: toPath,
+      folder: toFolder,
+      documentKey: getDocumentKey(record.fileName, toFolder),
+    });
+  }
+
+  return vectorIds.length;
+}
+
+async function moveFolderContents(from: string, to: string): Promise<MoveFolderResult> {
+  const contents = await getFolderContents(from);
+  if (isEmpty(contents)) throw new FolderNotFoundError(from);
+  if (!isEmpty(await getFolderContents(to))) throw new FolderExistsError(to);
+
+  const storage = getStorageProvider();
+  const rebase = (storagePath: string) => `${to}${storagePath.slice(from.length)}`;
+
+  // Sequential on purpose: each move rewrites the keyword index file
+  let vectorsMoved = 0;
+  for (const documentPath of contents.documentPaths) {
+    const destination = rebase(documentPath);
+    const destinationFolder = path.posix.dirname(destination);
+    vectorsMoved += await moveDocument(documentPath, destination, destinationFolder);
+  }
+  for (const placeholder of contents.placeholders) {
+    await storage.move(placeholder, rebase(placeholder));
+  }
+
+  logger.log(`[Folders] Moved ${from} → ${to}: ${contents.documentPaths.length} documents, ${vectorsMoved} vectors`);
+
+  return { from, to, documentsMoved: contents.documentPaths.length, vectorsMoved };
+}
+
+/**
+ * Rename or move a folder, with its subfolders and documents. The destination
+ * must not exist and cannot be inside the source.
+ * Runs in the ingestion queue, so no upload or reindex writes into the folder meanwhile.
+ */
+export async function moveFolder(fromFolder: unknown, toFolder: unknown): Promise<MoveFolderResult> {
+  const from = normalizeFolderPath(fromFolder);
+  const to = normalizeFolderPath(toFolder);
+
+  if (to === from || to.startsWith(`${from}/`)) {
+    throw new InvalidFolderPathError(to, `Cannot move ${from} into itself`);
+  }
+
+  return runInIngestionQueue(() => moveFolderContents(from, to));
+}
+
+async function deleteFolderContents(folder: string, recursive: boolean): Promise<DeleteFolderResult> {
+  const contents = await getFolderContents(folder);
+
+  if (isEmpty(contents)) throw new FolderNotFoundError(folder);
+  if (contents.documentPaths.length > 0 && !recursive) {
+    throw new FolderNotEmptyError(folder, contents.documentPaths.length);
+  }
+
+  let vectorsDeleted = 0;
+  for (const documentPath of contents.documentPaths) {
+    const result = await deleteDocument(documentPath);
+    vectorsDeleted += result.vectorsDeleted;
+  }
+  await getStorageProvider().delete(contents.placeholders);
+
+  logger.log(`[Folders] Deleted ${folder}: ${contents.documentPaths.length} documents, ${vectorsDeleted} vectors`);
+
+  return { folder, documentsDeleted: contents.documentPaths.length, vectorsDeleted };
+}
+
+/**
+ * Delete a folder. A folder holding documents is only deleted with `recursive`,
+ * which deletes each document like DELETE /api/documents/:storagePath.
+ * Runs in the ingestion queue, like moveFolder.
+ */
+export async function deleteFolder(folderPath: unknown, recursive: boolean = false): Promise<DeleteFolderResult> {
+  const folder = normalizeFolderPath(folderPath);
+  return runInIngestionQueue(() => deleteFolderContents(folder, recursive));
+}
@@ -0,0 +1,113 @@
+import { ParsedDocument } from '../utils/documentParser';
+import { chunkDocument, getEmbeddingText, TextChunk } from '../utils/textChunker';
+import { generateEmbeddings } from '../utils/embeddings';
+import { getVectorStore, VectorMetadata, VectorRecord } from '../providers/vectorStore';
+import { addToKeywordIndex, KeywordIndexRecord } from './keywordIndexService';
+import logger from '../utils/logger';
+
+// Pinecone recommends upserts of 100 vectors or less; embeddings use the same batches
+const BATCH_SIZE = 100;
+
+export interface IndexTarget {
+  storagePath: string; // also the prefix of the vector ids
+  folder?: string;
+  fileType: string;
+  uploadedAt: number;
+  // Extra metadata stored on every vector (e.g. the re-pinecone flag)
+  extraMetadata?: Record<string, string>;
+  logPrefix?: string;
+}
+
+export type ProgressCallback = (done: number, total: number) => void;
+
+/**
+ * Embed chunks in batches (with their heading path, see getEmbeddingText).
+ */
+export async function embedChunks(chunks: TextChunk[], onProgress?: ProgressCallback): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
+    const batch = chunks.slice(i, i + BATCH_SIZE);
+    embeddings.push(...await generateEmbeddings(batch.map(getEmbeddingText)));
+    onProgress?.(embeddings.length, chunks.length);
+  }
+  return embeddings;
+}
+
+/**
+ * Metadata stored with a chunk's vector.
+ */
+export function buildChunkMetadata(chunk: TextChunk, target: IndexTarget): VectorMetadata & { text: string } {
+  const { storagePath, folder, fileType, uploadedAt, extraMetadata } = target;
+
+  return {
+    fileName: chunk.fileName,
+    folder: folder || "",
+    storagePath,
+    fileType,
+    uploadedAt,
+    lineNumber: chunk.lineNumber.toString(),
+    chunkIndex: chunk.chunkIndex.toString(),
+    headingPath: chunk.headingPath,
+    ...(chunk.page !== undefined && { page: chunk.page, lineInPage: chunk.lineInPage! }),
+    chunkType: chunk.chunkType,
+    ...(chunk.tableRow && { tableRow: JSON.stringify(chunk.tableRow) }),
+    text: chunk.text,
+    ...extraMetadata,
+  };
+}
+
+/**
+ * Vector records of a document's chunks, with ids `${storagePath}-chunk-N`.
+ */
+export function buildVectorRecords(
+  chunks: TextChunk[],
+  embeddings: number[][],
+  target: IndexTarget
+): Array<VectorRecord & KeywordIndexRecord> {
+  return chunks.map((chunk, idx) => ({
+    id: `${target.storagePath}-chunk-${idx}`,
+    values: embeddings[idx],
+    metadata: buildChunkMetadata(chunk, target),
+  }));
+}
+
+/**
+ * Upsert vector records in batches, then add them to the keyword index.
+ * Upserts are idempotent, so a failed call can simply be repeated.
+ */
+export async function storeVectorRecords(
+  vectors: Array<VectorRecord & KeywordIndexRecord>,
+  logPrefix: string = '',
+  onProgress?: ProgressCallback
+): Promise<void> {
+  const vectorStore = getVectorStore();
+  logger.log(`${logPrefix}Storing vectors in ${vectorStore.name} vector store...`);
+
+  for (let i = 0; i < vectors.length; i += BATCH_SIZE) {
+    const batch = vectors.slice(i, i + BATCH_SIZE);
+    await vectorStore.upsert(batch);
+    logger.log(`${logPrefix}Upserted batch ${i / BATCH_SIZE + 1} of ${Math.ceil(vectors.length / BATCH_SIZE)}`);
+    onProgress?.(i + batch.length, vectors.length);
+  }
+
+  // Index the same chunks for keyword (BM25) search
+  await addToKeywordIndex(vectors);
+}
+
+/**
+ * Chunk a parsed document, embed the chunks and store them in the vector store
+ * (ids `${storagePath}-chunk-N`) and the keyword index.
+ * Returns the chunks that were indexed.
+ */
+export async function indexParsedDocument(parsedDoc: ParsedDocument, target: IndexTarget): Promise<TextChunk[]> {
+  const logPrefix = target.logPrefix || '';
+
+  logger.log(`${logPrefix}Chunking text for: ${parsedDoc.metadata.fileName}`);
+  const chunks = chunkDocument(parsedDoc);
+
+  logger.log(`${logPrefix}Generating embeddings for ${chunks.length} chunks...`);
+  const embeddings = await embedChunks(chunks);
+
+  await storeVectorRecords(buildVectorRecords(chunks, embeddings, target), logPrefix);
+  return chunks;
+}
@@ -0,0 +1,256 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import {
+  getFailedUploadResult, getIngestionResult, Ingestion, INGESTION_STAGES, IngestionStage,
+  isStageSkipped, prepareIngestion, runIngestionStage, setIngestionRecordStatus, UploadErrorCode, UploadOptions,
+  UploadResult
+} from './uploadService';
+import logger from '../utils/logger';
+
+/**
+ * Background ingestion jobs. Upload routes hand the uploaded file to a job and
+ * return its id; jobs run one at a time (like the former sequential batch
+ * upload, to stay within embedding and vector store rate limits) and record the
+ * progress of each stage. A failed job keeps its uploaded file and the output of
+ * the stages that completed, so a retry resumes at the failed stage; a succeeded
+ * job only keeps its result.
+ * Jobs live in memory: they are lost on restart, and finished jobs are dropped
+ * after JOB_RETENTION_MS (checked whenever jobs are created or read).
+ */
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type StageStatus = 'pending' | 'running' | 'done' | 'skipped' | 'failed';
+
+export interface JobStage {
+  name: IngestionStage;
+  status: StageStatus;
+  // Embed and upsert report the chunks processed so far
+  done?: number;
+  total?: number;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+export interface IngestionJob {
+  id: string;
+  status: JobStatus;
+  fileName: string;
+  folder?: string;
+  options: UploadOptions;
+  stages: JobStage[];
+  currentStage?: IngestionStage;
+  attempts: number;
+  result?: UploadResult;
+  error?: string;
+  errorCode?: UploadErrorCode;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface JobEntry {
+  job: IngestionJob;
+  // Released once the job succeeds: the file buffer, parsed document and embeddings are no longer needed
+  ingestion?: Ingestion;
+  finishedAt?: number;
+}
+
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const jobs: Map<string, JobEntry> = new Map();
+const events = new EventEmitter();
+events.setMaxListeners(0); // one listener per open progress stream
+
+// Jobs run one after another
+let queue: Promise<void> = Promise.resolve();
+
+export class JobNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Job not found: ${id}`);
+    this.name = 'JobNotFoundError';
+  }
+}
+
+export class JobNotRetryableError extends Error {
+  constructor(job: IngestionJob) {
+    super(`Job ${job.id} is ${job.status}; only failed jobs can be retried`);
+    this.name = 'JobNotRetryableError';
+  }
+}
+
+function snapshot(job: IngestionJob): IngestionJob {
+  return { ...job, stages: job.stages.map(stage => ({ ...stage })) };
+}
+
+function publish(job: IngestionJob): void {
+  job.updatedAt = new Date().toISOString();
+  events.emit(job.id, snapshot(job));
+}
+
+export function isJobFinished(job: IngestionJob): boolean {
+  return job.status === 'succeeded' || job.status === 'failed';
+}
+
+// Drop finished jobs past their retention, with the files kept for retrying failed ones
+function pruneJobs(): void {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  for (const [id, entry] of jobs) {
+    if (entry.finishedAt === undefined || entry.finishedAt > cutoff) continue;
+    jobs.delete(id);
+    if (entry.ingestion) {
+      fs.unlink(entry.ingestion.filePath).catch(() => { });
+    }
+  }
+}
+
+async function runJob(entry: JobEntry, ingestion: Ingestion): Promise<void> {
+  const { job } = entry;
+  job.status = 'running';
+  job.attempts++;
+  job.error = undefined;
+  job.errorCode = undefined;
+  publish(job);
+
+  try {
+    // A retried upload already has a record, marked failed by the previous attempt
+    await setIngestionRecordStatus(ingestion, 'processing');
+
+    for (const stage of job.stages) {
+      if (stage.status === 'done' || stage.status === 'skipped') continue;
+
+      job.currentStage = stage.name;
+      stage.status = 'running';
+      stage.startedAt = new Date().toISOString();
+      stage.error = undefined;
+      publish(job);
+
+      await runIngestionStage(ingestion, stage.name, (done, total) => {
+        stage.done = done;
+        stage.total = total;
+        publish(job);
+      });
+
+      stage.status = 'done';
+      stage.finishedAt = new Date().toISOString();
+      publish(job);
+    }
+
+    job.status = 'succeeded';
+    job.currentStage = undefined;
+    job.result = getIngestionResult(ingestion);
+    await fs.unlink(ingestion.filePath).catch(err => logger.error('Failed to delete temp file:', err));
+    entry.ingestion = undefined;
+    logger.log(`[Jobs] Job ${job.id} succeeded: ${job.result.message}`);
+  } catch (error) {
+    const stage = job.stages.find(candidate => candidate.status === 'running');
+    const result = getFailedUploadResult(job.fileName, error);
+    if (stage) {
+      stage.status = 'failed';
+      stage.finishedAt = new Date().toISOString();
+      stage.error = result.message;
+    }
+    job.status = 'failed';
+    job.result = result;
+    job.error = result.message;
+    job.errorCode = result.errorCode;
+    await setIngestionRecordStatus(ingestion, 'failed');
+    logger.error(`[Jobs] Job ${job.id} failed at stage ${stage?.name}:`, error);
+  }
+
+  entry.finishedAt = Date.now();
+  publish(job);
+}
+
+/**
+ * Run a task once the jobs and tasks queued before it are finished. Reindex
+ * operations queue each document here, so they never run alongside an upload.
+ */
+export function runInIngestionQueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  queue = result.then(() => undefined, () => undefined);
+  return result;
+}
+
+function enqueue(entry: JobEntry, ingestion: Ingestion): void {
+  runInIngestionQueue(() => runJob(entry, ingestion));
+}
+
+/**
+ * Queue the ingestion of an uploaded file. The job owns the file from now on
+ * and deletes it once the ingestion succeeds.
+ */
+export function createIngestionJob(
+  filePath: string,
+  fileName: string,
+  folderName?: string,
+  options: UploadOptions = {}
+): IngestionJob {
+  pruneJobs();
+
+  const ingestion = prepareIngestion(filePath, fileName, folderName, options);
+  const now = new Date().toISOString();
+  const job: IngestionJob = {
+    id: randomUUID(),
+    status: 'queued',
+    fileName: ingestion.safeFileName,
+    folder: ingestion.safeFolder,
+    options,
+    stages: INGESTION_STAGES.map(name => ({
+      name,
+      status: isStageSkipped(ingestion, name) ? 'skipped' : 'pending',
+    })),
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const entry: JobEntry = { job, ingestion };
+  jobs.set(job.id, entry);
+  enqueue(entry, ingestion);
+  logger.log(`[Jobs] Queued job ${job.id} for ${job.fileName}`);
+
+  return snapshot(job);
+}
+
+export function getIngestionJob(id: string): IngestionJob | undefined {
+  pruneJobs();
+  const entry = jobs.get(id);
+  return entry ? snapshot(entry.job) : undefined;
+}
+
+/**
+ * Re-queue a failed job. Completed stages are not run again.
+ */
+export function retryIngestionJob(id: string): IngestionJob {
+  pruneJobs();
+  const entry = jobs.get(id);
+  if (!entry) throw new JobNotFoundError(id);
+  if (entry.job.status !== 'failed' || !entry.ingestion) throw new JobNotRetryableError(entry.job);
+
+  const { job } = entry;
+  for (const stage of job.stages) {
+    if (stage.status === 'failed') stage.status = 'pending';
+  }
+  job.status = 'queued';
+  job.result = undefined;
+  entry.finishedAt = undefined;
+  publish(job);
+  enqueue(entry, entry.ingestion);
+  logger.log(`[Jobs] Retrying job ${job.id} (attempt ${job.attempts + 1})`);
+
+  return snapshot(job);
+}
+
+/**
+ * Call `listener` with a snapshot of the job on every change.
+ * Returns the function that stops listening.
+ */
+export function subscribeToJob(id: string, listener: (job: IngestionJob) => void): () => void {
+  pruneJobs();
+  if (!jobs.has(id)) throw new JobNotFoundError(id);
+  events.on(id, listener);
+  return () => {
+    events.off(id, listener);
+  };
+}
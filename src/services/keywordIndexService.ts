@@ -0,0 +1,116 @@
+/**
+ * Keyword (BM25) index over the same chunks that are sent to the vector store.
+ * Built at ingestion time and persisted to a JSON file so it survives restarts.
+ * Documents indexed before this index existed are only found by vector search
+ * until they are re-uploaded or reindexed.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Bm25Index, Bm25Match, SerializedBm25Index } from '../utils/bm25';
+import { matchesFilter, MetadataFilter } from '../providers/vectorStore';
+import logger from '../utils/logger';
+
+const INDEX_PATH = process.env.KEYWORD_INDEX_PATH || path.join(process.cwd(), '.local-data', 'bm25-index.json');
+
+export interface KeywordIndexRecord {
+  id: string;
+  metadata: Record<string, any> & { text: string };
+}
+
+let index: Bm25Index | null = null;
+let loading: Promise<Bm25Index> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+async function getIndex(): Promise<Bm25Index> {
+  if (index) return index;
+
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const content = await fs.readFile(INDEX_PATH, 'utf-8');
+        index = Bm25Index.fromJSON(JSON.parse(content) as SerializedBm25Index);
+        logger.log(`[KeywordIndex] Loaded ${index.size} chunks from ${INDEX_PATH}`);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          logger.error('[KeywordIndex] Failed to load index, starting empty:', error);
+        }
+        index = new Bm25Index();
+      }
+      return index;
+    })();
+  }
+
+  return loading;
+}
+
+// Writes are serialized so concurrent uploads never interleave on disk
+function persist(): Promise<void> {
+  writeQueue = writeQueue.then(async () => {
+    if (!index) return;
+    await fs.mkdir(path.dirname(INDEX_PATH), { recursive: true });
+    const tempPath = `${INDEX_PATH}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(index.toJSON()));
+    await fs.rename(tempPath, INDEX_PATH);
+  }).catch(error => {
+    logger.error('[KeywordIndex] Failed to persist index:', error);
+  });
+  return writeQueue;
+}
+
+/**
+ * Add (or replace) chunks in the keyword index.
+ */
+export async function addToKeywordIndex(records: KeywordIndexRecord[]): Promise<void> {
+  const bm25 = await getIndex();
+  for (const record of records) {
+    bm25.add({ id: record.id, text: record.metadata.text, metadata: record.metadata });
+  }
+  logger.log(`[KeywordIndex] Indexed ${records.length} chunks (total: ${bm25.size})`);
+  await persist();
+}
+
+/**
+ * Remove every chunk whose id starts with the prefix (e.g. `${storagePath}-chunk-`).
+ */
+export async function removeFromKeywordIndex(idPrefix: string): Promise<number> {
+  const bm25 = await getIndex();
+  const removed = bm25.removeByPrefix(idPrefix);
+  if (removed > 0) {
+    logger.log(`[KeywordIndex] Removed ${removed} chunks with prefix "${idPrefix}"`);
+    await persist();
+  }
+  return removed;
+}
+
+/**
+ * Remove the chunks with the given ids. Returns the number removed.
+ */
+export async function removeIdsFromKeywordIndex(ids: string[]): Promise<number> {
+  const bm25 = await getIndex();
+  const removed = ids.filter(id => bm25.remove(id)).length;
+  if (removed > 0) {
+    logger.log(`[KeywordIndex] Removed ${removed} chunks`);
+    await persist();
+  }
+  return removed;
+}
+
+/**
+ * Search the keyword index, honouring the same metadata filter as the vector query.
+ */
+export async function searchKeywordIndex(
+  query: string,
+  topK: number,
+  filter?: MetadataFilter
+): Promise<Bm25Match[]> {
+  const bm25 = await getIndex();
+  return bm25.search(query, topK, filter ? metadata => matchesFilter(metadata, filter) : undefined);
+}
+
+/**
+ * Number of chunks currently indexed.
+ */
+export async function getKeywordIndexSize(): Promise<number> {
+  return (await getIndex()).size;
+}
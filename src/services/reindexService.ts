@@ -0,0 +1,344 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { getStorageProvider, StorageObject } from '../providers/storage';
+import { getVectorStore, VectorRecord } from '../providers/vectorStore';
+import { getDocumentStore, DocumentRecord } from '../providers/documentStore';
+import { chunkDocument } from '../utils/textChunker';
+import { buildVectorRecords, embedChunks, IndexTarget, storeVectorRecords } from './indexingService';
+import { removeIdsFromKeywordIndex } from './keywordIndexService';
+import { invalidateCacheForDocument } from './cacheService';
+import { DocumentNotFoundError, getChunkIdPrefix, validateStoragePath } from './documentService';
+import { parseStoredDocument } from './versionService';
+import { normalizeFolderPath } from './folderService';
+import { getDownloadFileName } from './downloadService';
+import { runInIngestionQueue } from './ingestionJobService';
+import logger from '../utils/logger';
+
+/**
+ * Reindex stored documents from the files already in storage, after a parser,
+ * chunker or embedding change. An operation covers one storage path, a folder
+ * or every stored document; superseded and unfinished versions are skipped.
+ * Each document is parsed, chunked and embedded before the index is touched, so
+ * a failure leaves its current vectors in place. The new vectors then replace
+ * the old ones under the same ids and the leftover ids are deleted; when the
+ * upsert fails partway, the old vectors are written back.
+ * Operations are tracked in memory like ingestion jobs, and each document runs
+ * in the ingestion queue so uploads are never processed at the same time.
+ */
+
+export type ReindexStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type ReindexDocumentStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface ReindexScope {
+  storagePath?: string;
+  folder?: string;
+  recursive?: boolean;
+  all?: boolean;
+}
+
+export interface ReindexDocument {
+  storagePath: string;
+  status: ReindexDocumentStatus;
+  previousChunksCount?: number;
+  chunksCount?: number;
+  error?: string;
+}
+
+export interface ReindexOperation {
+  id: string;
+  // failed when at least one document failed; see documents[].error
+  status: ReindexStatus;
+  scope: ReindexScope;
+  total: number;
+  done: number;
+  failed: number;
+  documents: ReindexDocument[];
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+interface StoredDocument {
+  storagePath: string;
+  createdAt?: string;
+  record?: DocumentRecord;
+}
+
+interface OperationEntry {
+  operation: ReindexOperation;
+  targets: StoredDocument[];
+  finishedAt?: number;
+}
+
+const OPERATION_RETENTION_MS = 24 * 60 * 60 * 1000;
+const LOG_PREFIX = '[Reindex] ';
+
+const operations: Map<string, OperationEntry> = new Map();
+const events = new EventEmitter();
+events.setMaxListeners(0); // one listener per open progress stream
+
+export class InvalidReindexScopeError extends Error {
+  constructor() {
+    super('Provide exactly one of storagePath, folder or all=true');
+    this.name = 'InvalidReindexScopeError';
+  }
+}
+
+export class NothingToReindexError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'NothingToReindexError';
+  }
+}
+
+export class ReindexOperationNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Reindex operation not found: ${id}`);
+    this.name = 'ReindexOperationNotFoundError';
+  }
+}
+
+function snapshot(operation: ReindexOperation): ReindexOperation {
+  return { ...operation, documents: operation.documents.map(document => ({ ...document })) };
+}
+
+function publish(operation: ReindexOperation): void {
+  operation.updatedAt = new Date().toISOString();
+  events.emit(operation.id, snapshot(operation));
+}
+
+export function isReindexFinished(operation: ReindexOperation): boolean {
+  return operation.status === 'succeeded' || operation.status === 'failed';
+}
+
+function pruneOperations(): void {
+  const cutoff = Date.now() - OPERATION_RETENTION_MS;
+  for (const [id, entry] of operations) {
+    if (entry.finishedAt !== undefined && entry.finishedAt <= cutoff) operations.delete(id);
+  }
+}
+
+/**
+ * Validate a request body ({ storagePath } | { folder, recursive? } | { all: true }).
+ */
+export function parseReindexScope(body: Record<string, unknown>): ReindexScope {
+  const given = [body.storagePath !== undefined, body.folder !== undefined, body.all === true];
+  if (given.filter(Boolean).length !== 1) throw new InvalidReindexScopeError();
+
+  if (body.storagePath !== undefined) return { storagePath: validateStoragePath(body.storagePath) };
+  if (body.folder !== undefined) {
+    return { folder: normalizeFolderPath(body.folder), recursive: body.recursive === true || body.recursive === 'true' };
+  }
+  return { all: true };
+}
+
+/**
+ * Stored documents covered by the scope. Objects with a non-active record
+ * (superseded, failed or still processing versions) are left out; objects stored
+ * before the document registry existed have no record and are included.
+ */
+async function resolveScope(scope: ReindexScope): Promise<StoredDocument[]> {
+  const storage = getStorageProvider();
+  const records = new Map((await getDocumentStore().find({})).map(record => [record.storagePath, record]));
+
+  let objects: StorageObject[];
+  if (scope.storagePath) {
+    const object = await storage.stat(scope.storagePath);
+    if (!object) throw new DocumentNotFoundError(scope.storagePath);
+    objects = [object];
+  } else {
+    objects = await storage.list(scope.folder || '', { recursive: scope.all || scope.recursive });
+  }
+
+  const targets = objects
+    .map(object => ({ storagePath: object.path, createdAt: object.createdAt, record: records.get(object.path) }))
+    .filter(target => !target.record || target.record.status === 'active');
+
+  if (targets.length === 0) {
+    throw new NothingToReindexError(
+      scope.storagePath
+        ? `${scope.storagePath} is not the active version of its document`
+        : `No stored documents to reindex${scope.folder ? ` in ${scope.folder}` : ''}`
+    );
+  }
+  return targets.sort((a, b) => a.storagePath.localeCompare(b.storagePath));
+}
+
+// Upload time used in the vector metadata: the timestamp prefix of the stored name
+function getUploadedAt(target: StoredDocument): number {
+  const match = path.posix.basename(target.storagePath).match(/^(\d{13})-/);
+  if (match) return Number(match[1]);
+
+  const createdAt = Date.parse(target.record?.createdAt || target.createdAt || '');
+  return Number.isNaN(createdAt) ? Date.now() : createdAt;
+}
+
+/**
+ * Put back the vectors and keyword entries of a document after a failed upsert of
+ * `written`: new ids that did not exist before are deleted, the old vectors re-stored.
+ * A failure here is logged; the document is then left partly reindexed.
+ */
+async function restoreVectors(storagePath: string, previous: VectorRecord[], written: VectorRecord[]): Promise<void> {
+  try {
+    const previousIds = new Set(previous.map(vector => vector.id));
+    const addedIds = written.map(vector => vector.id).filter(id => !previousIds.has(id));
+    if (addedIds.length > 0) {
+      await getVectorStore().deleteByIds(addedIds);
+      await removeIdsFromKeywordIndex(addedIds);
+    }
+    await storeVectorRecords(previous.map(vector => ({
+      id: vector.id,
+      values: vector.values,
+      metadata: { ...vector.metadata, text: String(vector.metadata?.text ?? '') },
+    })), LOG_PREFIX);
+    logger.log(`${LOG_PREFIX}Restored the previous ${previous.length} vectors of ${storagePath}`);
+  } catch (error) {
+    logger.error(`${LOG_PREFIX}Failed to restore the previous vectors of ${storagePath}:`, error);
+  }
+}
+
+/**
+ * Rebuild the vectors and keyword entries of one stored document.
+ */
+async function reindexDocument(target: StoredDocument): Promise<{ previousChunksCount: number; chunksCount: number }> {
+  const { storagePath } = target;
+
+  // The operation may have waited behind uploads that replaced or deleted this version
+  const record = target.record && await getDocumentStore().get(target.record.id);
+  if (target.record && record?.status !== 'active') {
+    throw new Error(`${storagePath} is no longer the active version of its document`);
+  }
+
+  const fileName = record?.fileName || getDownloadFileName(storagePath);
+  const folder = path.posix.dirname(storagePath) === '.' ? '' : path.posix.dirname(storagePath);
+  const indexTarget: IndexTarget = {
+    storagePath,
+    folder,
+    fileType: path.extname(fileName).replace('.', '').toLowerCase(),
+    uploadedAt: getUploadedAt(target),
+    logPrefix: LOG_PREFIX,
+  };
+
+  // Everything that can fail on the file itself runs before the index is touched
+  logger.log(`${LOG_PREFIX}Parsing ${storagePath}`);
+  const parsedDoc = await parseStoredDocument(storagePath, fileName);
+  const chunks = chunkDocument(parsedDoc);
+  logger.log(`${LOG_PREFIX}Generating embeddings for ${chunks.length} chunks...`);
+  const vectors = buildVectorRecords(chunks, await embedChunks(chunks), indexTarget);
+
+  // The new chunks overwrite the old ones under the same ids, then the old ids beyond
+  // the new chunk count are deleted. This is not atomic: searches running meanwhile can
+  // see old and new chunks together. The old vectors are kept to restore them if the
+  // upsert fails partway.
+  const vectorStore = getVectorStore();
+  const previousIds = await vectorStore.listIds(getChunkIdPrefix(storagePath));
+  const previous = await vectorStore.fetch(previousIds);
+  try {
+    await storeVectorRecords(vectors, LOG_PREFIX);
+  } catch (error) {
+    await restoreVectors(storagePath, previous, vectors);
+    throw error;
+  }
+
+  const currentIds = new Set(vectors.map(vector => vector.id));
+  const staleIds = previousIds.filter(id => !currentIds.has(id));
+  if (staleIds.length > 0) {
+    await vectorStore.deleteByIds(staleIds);
+    await removeIdsFromKeywordIndex(staleIds);
+  }
+  invalidateCacheForDocument(storagePath);
+
+  if (record) {
+    await getDocumentStore().update(record.id, {
+      chunksCount: chunks.length,
+      pageCount: parsedDoc.metadata.pageCount,
+    });
+  }
+
+  return { previousChunksCount: previousIds.length, chunksCount: chunks.length };
+}
+
+async function runOperation(entry: OperationEntry): Promise<void> {
+  const { operation, targets } = entry;
+  operation.status = 'running';
+  operation.startedAt = new Date().toISOString();
+  publish(operation);
+
+  for (let i = 0; i < targets.length; i++) {
+    const document = operation.documents[i];
+
+    // Queued per document, so uploads received meanwhile don't wait for the whole operation
+    await runInIngestionQueue(async () => {
+      document.status = 'running';
+      publish(operation);
+
+      try {
+        const result = await reindexDocument(targets[i]);
+        document.status = 'done';
+        document.previousChunksCount = result.previousChunksCount;
+        document.chunksCount = result.chunksCount;
+        operation.done++;
+      } catch (error) {
+        logger.error(`${LOG_PREFIX}Failed to reindex ${document.storagePath}:`, error);
+        document.status = 'failed';
+        document.error = error instanceof Error ? error.message : 'Unknown error';
+        operation.failed++;
+      }
+      publish(operation);
+    });
+  }
+
+  operation.status = operation.failed > 0 ? 'failed' : 'succeeded';
+  operation.finishedAt = new Date().toISOString();
+  entry.finishedAt = Date.now();
+  logger.log(`${LOG_PREFIX}Operation ${operation.id} finished: ${operation.done} reindexed, ${operation.failed} failed`);
+  publish(operation);
+}
+
+/**
+ * Start reindexing the stored documents covered by the scope.
+ * Throws DocumentNotFoundError or NothingToReindexError when there is nothing to do.
+ */
+export async function createReindexOperation(scope: ReindexScope): Promise<ReindexOperation> {
+  pruneOperations();
+
+  const targets = await resolveScope(scope);
+  const now = new Date().toISOString();
+  const operation: ReindexOperation = {
+    id: randomUUID(),
+    status: 'queued',
+    scope,
+    total: targets.length,
+    done: 0,
+    failed: 0,
+    documents: targets.map(target => ({ storagePath: target.storagePath, status: 'pending' })),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const entry: OperationEntry = { operation, targets };
+  operations.set(operation.id, entry);
+  runOperation(entry).catch(error => logger.error(`${LOG_PREFIX}Operation ${operation.id} crashed:`, error));
+  logger.log(`${LOG_PREFIX}Queued operation ${operation.id} for ${targets.length} documents`);
+
+  return snapshot(operation);
+}
+
+export function getReindexOperation(id: string): ReindexOperation | undefined {
+  const entry = operations.get(id);
+  return entry ? snapshot(entry.operation) : undefined;
+}
+
+/**
+ * Call `listener` with a snapshot of the operation on every change.
+ * Returns the function that stops listening.
+ */
+export function subscribeToReindex(id: string, listener: (operation: ReindexOperation) => void): () => void {
+  if (!operations.has(id)) throw new ReindexOperationNotFoundError(id);
+  events.on(id, listener);
+  return () => {
+    events.off(id, listener);
+  };
+}
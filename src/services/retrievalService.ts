@@ -0,0 +1,210 @@
+import { ChatMessage } from '../providers/llm';
+import { getVectorStore } from '../providers/vectorStore';
+import { refineQueryWithGhostPrompt, isQueryLikelyAmbiguous, rewriteFollowUpQuestion } from '../utils/ghostPrompt';
+import { rerankDocuments, RetrievedDocument, RankedDocument, getInitialRetrievalCount, getFinalResultCount } from '../utils/reranker';
+import { RetrievalFilters, buildMetadataFilter, getFilterKey } from '../utils/metadataFilter';
+import { reciprocalRankFusion } from '../utils/rankFusion';
+import { RerankerName } from '../utils/rerankStrategies';
+import { selectWithMmr, DiversityConfig, DEFAULT_DIVERSITY_CONFIG } from '../utils/diversity';
+import { searchKeywordIndex } from './keywordIndexService';
+import { startStep, endStep, setRefinedQuery, QueryLog } from '../utils/queryLogger';
+
+/**
+ * Retrieval pipeline shared by chat and cache warming: query refinement, vector and
+ * keyword search, rank fusion, reranking and MMR selection. The retrieval key names
+ * the settings the ranked results depend on, so cached results are only reused for
+ * retrievals made the same way.
+ */
+
+// Number of passages retrieved when a chat request does not set topK
+export const DEFAULT_CHAT_TOP_K = 3;
+
+export interface RetrievalOptions {
+  // Metadata filters applied to the vector query
+  filters?: RetrievalFilters;
+  // Fuse BM25 keyword results with the vector results (default: true)
+  hybrid?: boolean;
+  // Second-stage reranking strategy (default: hybrid)
+  reranker?: RerankerName;
+  // Maximal-marginal-relevance selection and per-file cap (default: MMR on, no cap)
+  diversity?: Partial<DiversityConfig>;
+}
+
+/**
+ * Cache key of the retrieval settings: filters, hybrid or vector-only search,
+ * reranker and MMR settings.
+ */
+export function getRetrievalKey(options: RetrievalOptions = {}): string {
+  const diversity: DiversityConfig = { ...DEFAULT_DIVERSITY_CONFIG, ...options.diversity };
+  return [
+    getFilterKey(options.filters),
+    options.hybrid !== false ? 'hybrid' : 'vector',
+    options.reranker || 'hybrid',
+    diversity.enabled ? `mmr:${diversity.lambda}:${diversity.maxPerFile ?? ''}` : 'no-mmr'
+  ].join('|');
+}
+
+/**
+ * Turn a (possibly follow-up) question into the query used for retrieval: follow-ups
+ * are rewritten as standalone questions, ambiguous ones refined with the ghost prompt.
+ */
+export async function resolveSearchQuery(
+  question: string,
+  history: ChatMessage[],
+  queryLog: QueryLog
+): Promise<{ standaloneQuestion: string; searchQuery: string }> {
+  let standaloneQuestion = question;
+
+  if (history.length > 0) {
+    const rewriteStep = startStep(queryLog, 'Follow-up Rewrite');
+    standaloneQuestion = await rewriteFollowUpQuestion(question, history);
+    endStep(queryLog, rewriteStep, {
+      historyMessages: history.length,
+      standaloneQuestion
+    });
+  }
+
+  let searchQuery = standaloneQuestion;
+
+  if (isQueryLikelyAmbiguous(standaloneQuestion)) {
+    const ghostStep = startStep(queryLog, 'Ghost Prompt (Query Refinement)');
+    const refined = await refineQueryWithGhostPrompt(standaloneQuestion);
+    searchQuery = refined.refinedQuery;
+    endStep(queryLog, ghostStep, {
+      isAmbiguous: refined.isAmbiguous,
+      intent: refined.intent,
+      entities: refined.entities
+    });
+  }
+
+  if (searchQuery !== question) {
+    setRefinedQuery(queryLog, searchQuery);
+  }
+
+  return { standaloneQuestion, searchQuery };
+}
+
+function toRetrievedDocument(match: { id: string; score?: number; metadata?: Record<string, any> }): RetrievedDocument {
+  return {
+    id: match.id,
+    score: match.score || 0,
+    metadata: {
+      fileName: (match.metadata?.fileName as string) || 'Unknown',
+      lineNumber: (match.metadata?.lineNumber as string) || '0',
+      text: (match.metadata?.text as string) || '',
+      ...match.metadata
+    }
+  };
+}
+
+// Merge vector and keyword results with reciprocal-rank fusion.
+// The fused score is normalized to 0-1 and becomes the retrieval score seen by the reranker.
+function fuseRetrievals(
+  vectorDocuments: RetrievedDocument[],
+  keywordDocuments: RetrievedDocument[],
+  limit: number
+): RetrievedDocument[] {
+  const fused = reciprocalRankFusion([vectorDocuments, keywordDocuments]).slice(0, limit);
+  const maxScore = fused[0]?.fusedScore || 1;
+  const vectorScores = new Map(vectorDocuments.map(doc => [doc.id, doc.score]));
+  const keywordScores = new Map(keywordDocuments.map(doc => [doc.id, doc.score]));
+
+  return fused.map(result => ({
+    ...result.item,
+    score: result.fusedScore / maxScore,
+    vectorScore: vectorScores.get(result.id),
+    bm25Score: keywordScores.get(result.id)
+  }));
+}
+
+/**
+ * Initial retrieval: the vector query and, for hybrid retrieval, the keyword search,
+ * merged with rank fusion.
+ */
+export async function searchCandidates(
+  searchQuery: string,
+  queryEmbedding: number[],
+  options: RetrievalOptions,
+  queryLog: QueryLog
+): Promise<RetrievedDocument[]> {
+  const filter = buildMetadataFilter(options.filters);
+  const initialTopK = getInitialRetrievalCount();
+
+  const retrievalStep = startStep(queryLog, 'Vector Search (Initial 20)', filter ? { filter } : undefined);
+  const resultsPromise = getVectorStore().query({
+    vector: queryEmbedding,
+    topK: initialTopK,
+    filter,
+    includeMetadata: true,
+  });
+
+  const useHybrid = options.hybrid !== false;
+  const keywordStep = useHybrid ? startStep(queryLog, 'Keyword Search (BM25)') : null;
+  const keywordPromise = useHybrid
+    ? searchKeywordIndex(searchQuery, initialTopK, filter)
+    : Promise.resolve([]);
+
+  const [results, keywordMatches] = await Promise.all([resultsPromise, keywordPromise]);
+  endStep(queryLog, retrievalStep, { resultsCount: results.matches?.length || 0 });
+  if (keywordStep) {
+    endStep(queryLog, keywordStep, { resultsCount: keywordMatches.length });
+  }
+
+  let documents: RetrievedDocument[] = (results.matches || []).map(match => toRetrievedDocument(match));
+
+  if (keywordMatches.length > 0) {
+    const fusionStep = startStep(queryLog, 'Rank Fusion (RRF)');
+    const vectorCount = documents.length;
+    documents = fuseRetrievals(documents, keywordMatches.map(match => toRetrievedDocument(match)), initialTopK);
+    endStep(queryLog, fusionStep, {
+      vectorCount,
+      keywordCount: keywordMatches.length,
+      fusedCount: documents.length,
+      keywordOnlyCount: documents.filter(doc => doc.vectorScore === undefined).length
+    });
+  }
+
+  return documents;
+}
+
+/**
+ * Rerank the candidates and, with diversity enabled, pick the final set with MMR.
+ */
+export async function rankCandidates(
+  searchQuery: string,
+  documents: RetrievedDocument[],
+  topK: number,
+  options: RetrievalOptions,
+  queryLog: QueryLog
+): Promise<RankedDocument[]> {
+  const reranker = options.reranker || 'hybrid';
+  const diversity: DiversityConfig = { ...DEFAULT_DIVERSITY_CONFIG, ...options.diversity };
+
+  // With diversity enabled every candidate is kept, and MMR picks the final set below
+  const finalCount = Math.min(topK, getFinalResultCount());
+  const rerankStep = startStep(queryLog, 'Reranking (20 → 10)', { strategy: reranker });
+  let rankedDocs = await rerankDocuments(searchQuery, documents, {
+    finalResultCount: diversity.enabled ? documents.length : finalCount,
+    strategy: reranker
+  });
+  endStep(queryLog, rerankStep, {
+    inputCount: documents.length,
+    outputCount: rankedDocs.length
+  });
+
+  if (diversity.enabled) {
+    const diversityStep = startStep(queryLog, 'Diversity Selection (MMR)', {
+      lambda: diversity.lambda,
+      maxPerFile: diversity.maxPerFile
+    });
+    const candidateCount = rankedDocs.length;
+    rankedDocs = selectWithMmr(rankedDocs, finalCount, diversity);
+    endStep(queryLog, diversityStep, {
+      inputCount: candidateCount,
+      outputCount: rankedDocs.length,
+      filesRepresented: new Set(rankedDocs.map(doc => doc.metadata.storagePath || doc.metadata.fileName)).size
+    });
+  }
+
+  return rankedDocs;
+}
@@ -1,12 +1,19 @@
-import { supabaseAdmin, BUCKET_NAME } from '../config/supabase';
-import { parseDocument, ParsedDocument } from '../utils/documentParser';
-import { chunkText, TextChunk } from '../utils/textChunker';
-import { generateEmbeddings } from '../utils/embeddings';
-import { getPineconeIndex } from '../config/pinecone';
+import { parseDocument, DocumentParseError, ParsedDocument } from '../utils/documentParser';
+import { chunkDocument, TextChunk } from '../utils/textChunker';
+import { getStorageProvider } from '../providers/storage';
+import { getDocumentStore, DocumentChanges, DocumentRecord } from '../providers/documentStore';
+import { buildVectorRecords, embedChunks, IndexTarget, ProgressCallback, storeVectorRecords } from './indexingService';
+import {
+  getActiveVersion, getDocumentKey, getIndexedTexts, getNextVersionNumber, retireVersion, summarizeChanges
+} from './versionService';
+import { getContentType } from '../utils/contentTypes';
 import logger from '../utils/logger';
+import { createHash } from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 
+export type UploadErrorCode = 'UNPARSEABLE_DOCUMENT' | 'DUPLICATE_DOCUMENT' | 'DOCUMENT_EXISTS';
+
 export interface UploadResult {
   success: boolean;
   fileName: string;
@@ -14,6 +21,81 @@ export interface UploadResult {
   storagePath?: string;
   chunksCount: number;
   message: string;
+  // Version record of the upload (regular uploads only)
+  documentId?: string;
+  documentKey?: string;
+  version?: number;
+  // Set when the upload replaced an earlier version
+  replacedStoragePath?: string;
+  changes?: DocumentChanges;
+  // Set when the upload was refused: unreadable file, same content already
+  // active, or a different version already active without `replace`
+  errorCode?: UploadErrorCode;
+  existingStoragePath?: string;
+}
+
+export interface Uploader {
+  id: string;
+  email?: string;
+}
+
+export interface UploadOptions {
+  // Replace the active version of the same document instead of refusing the upload
+  replace?: boolean;
+  // Index only, without storing the file or recording a version (re-pinecone)
+  pineconeOnly?: boolean;
+  // Signed-in user, recorded on the document record
+  uploader?: Uploader;
+}
+
+export const INGESTION_STAGES = ['parse', 'store', 'chunk', 'embed', 'upsert'] as const;
+export type IngestionStage = typeof INGESTION_STAGES[number];
+
+/**
+ * State of one file going through the ingestion stages. Each stage stores its
+ * output here, so after a failure the pipeline resumes at the failed stage.
+ */
+export interface Ingestion {
+  filePath: string; // uploaded temp file
+  originalFileName: string;
+  options: UploadOptions;
+  safeFileName: string;
+  safeFolder?: string;
+  documentKey: string;
+  storagePath: string; // reference path only for pineconeOnly uploads
+  fileType: string;
+  uploadedAt: number;
+  logPrefix: string;
+  // Stage outputs
+  fileBuffer?: Buffer;
+  contentHash?: string;
+  previous?: DocumentRecord;
+  parsedDoc?: ParsedDocument;
+  chunks?: TextChunk[];
+  embeddings?: number[][];
+  record?: DocumentRecord;
+  changes?: DocumentChanges;
+}
+
+export class DuplicateDocumentError extends Error {
+  constructor(readonly existingStoragePath: string) {
+    super(`This file was already uploaded as ${existingStoragePath}`);
+    this.name = 'DuplicateDocumentError';
+  }
+}
+
+export class DocumentExistsError extends Error {
+  constructor(documentKey: string, readonly existingStoragePath: string) {
+    super(`A version of ${documentKey} already exists (${existingStoragePath}); upload with replace=true to replace it`);
+    this.name = 'DocumentExistsError';
+  }
+}
+
+function getUploadErrorCode(error: unknown): UploadErrorCode | undefined {
+  if (error instanceof DocumentParseError) return 'UNPARSEABLE_DOCUMENT';
+  if (error instanceof DuplicateDocumentError) return 'DUPLICATE_DOCUMENT';
+  if (error instanceof DocumentExistsError) return 'DOCUMENT_EXISTS';
+  return undefined;
 }
 
 function sanitizeFileName(filename: string): string {
@@ -32,185 +114,263 @@ function sanitizeFolderName(folderName: string): string {
   return clean.replace(/^_+|_+$/g, "");
 }
 
-export async function uploadDocument(
+/**
+ * Sanitize a folder path segment by segment: "Clients/Entreprise é" → "Clients/Entreprise_e".
+ * Empty segments are dropped.
+ */
+export function sanitizeFolderPath(folderPath: string): string {
+  return folderPath
+    .split('/')
+    .map(sanitizeFolderName)
+    .filter(Boolean)
+    .join('/');
+}
+
+/**
+ * Describe an uploaded file before any stage runs: sanitized names, storage path
+ * (`folder/${Date.now()}-file`) and document key. The stages are run by
+ * ingestionJobService. Files whose exact content is already active are refused.
+ * When another version of the same document (same folder and file name) is active,
+ * the upload is refused unless `replace` is set; the old version is then retired
+ * once the new one is indexed.
+ */
+export function prepareIngestion(
   filePath: string,
   fileName: string,
-  folderName?: string
-): Promise<UploadResult> {
-  try {
-    // --- Sanitize filename BEFORE any logic ---
-    const safeFileName = sanitizeFileName(fileName);
-    const uniqueFileName = `${Date.now()}-${safeFileName}`;
-    const fileExt = path.extname(safeFileName);
+  folderName?: string,
+  options: UploadOptions = {}
+): Ingestion {
+  // --- Sanitize filename BEFORE any logic ---
+  const safeFileName = sanitizeFileName(fileName);
+  const uploadedAt = Date.now();
+  const uniqueFileName = `${uploadedAt}-${safeFileName}`;
 
-    // Sanitize folder name if provided
-    const safeFolder = folderName ? sanitizeFolderName(folderName) : undefined;
+  // Sanitize folder name if provided; "parent/child" uploads into a nested folder
+  const safeFolder = folderName ? sanitizeFolderPath(folderName) : undefined;
 
+  return {
+    filePath,
+    originalFileName: fileName,
+    options,
+    safeFileName,
+    safeFolder,
+    documentKey: getDocumentKey(safeFileName, safeFolder),
     // Build the storage path: folder/uniqueFileName or just uniqueFileName
-    const storagePath = safeFolder
-      ? `${safeFolder}/${uniqueFileName}`
-      : uniqueFileName;
-
-    // 1. Parse the document
-    logger.log(`Parsing document: ${safeFileName}`);
-    const parsedDoc = await parseDocument(filePath, safeFileName);
-
-    // 2. Upload to Supabase storage
-    logger.log(`Uploading to Supabase: ${storagePath}`);
-    const fileBuffer = await fs.readFile(filePath);
-
-    const { data: uploadData, error: uploadError } = await supabaseAdmin.storage
-      .from(BUCKET_NAME)
-      .upload(storagePath, fileBuffer, {
-        contentType: fileExt === '.pdf' ? 'application/pdf' : 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        upsert: false,
-      });
-
-    if (uploadError) {
-      throw new Error(`Supabase upload error: ${uploadError.message}`);
+    storagePath: safeFolder ? `${safeFolder}/${uniqueFileName}` : uniqueFileName,
+    fileType: path.extname(safeFileName).replace('.', '').toLowerCase(),
+    uploadedAt,
+    logPrefix: options.pineconeOnly ? '[Pinecone Only] ' : '',
+  };
+}
+
+/**
+ * Stages that do nothing for this upload (pineconeOnly uploads are not stored).
+ */
+export function isStageSkipped(ingestion: Ingestion, stage: IngestionStage): boolean {
+  return stage === 'store' && !!ingestion.options.pineconeOnly;
+}
+
+function getIndexTarget(ingestion: Ingestion): IndexTarget {
+  return {
+    storagePath: ingestion.storagePath,
+    folder: ingestion.safeFolder,
+    fileType: ingestion.fileType,
+    uploadedAt: ingestion.uploadedAt,
+    logPrefix: ingestion.logPrefix,
+    // Flag to indicate this wasn't stored in Supabase
+    ...(ingestion.options.pineconeOnly && { extraMetadata: { pineconeOnly: "true" } }),
+  };
+}
+
+// 1. Check the file against the existing versions, parse it and record the upload (status `processing`)
+async function parseStage(ingestion: Ingestion): Promise<void> {
+  const { safeFileName, documentKey, logPrefix } = ingestion;
+  const fileBuffer = await fs.readFile(ingestion.filePath);
+
+  if (!ingestion.options.pineconeOnly) {
+    const contentHash = createHash('sha256').update(fileBuffer).digest('hex');
+    const [duplicate] = await getDocumentStore().find({ contentHash, status: 'active' });
+    if (duplicate) {
+      throw new DuplicateDocumentError(duplicate.storagePath);
     }
 
-    // 3. Chunk the text
-    logger.log(`Chunking text for: ${safeFileName}`);
-    const chunks = chunkText(parsedDoc.lines, safeFileName);
-
-    // 4. Generate embeddings
-    logger.log(`Generating embeddings for ${chunks.length} chunks...`);
-    const chunkTexts = chunks.map(chunk => chunk.text);
-    const embeddings = await generateEmbeddings(chunkTexts);
-
-    // 5. Store in Pinecone
-    logger.log(`Storing vectors in Pinecone...`);
-    const index = await getPineconeIndex();
-
-    const vectors = chunks.map((chunk, idx) => ({
-      id: `${storagePath}-chunk-${idx}`, // Use storage path for unique ID including folder
-      values: embeddings[idx],
-      metadata: {
-        fileName: chunk.fileName,
-        folder: safeFolder || "",
-        storagePath: storagePath,
-        lineNumber: chunk.lineNumber.toString(),
-        chunkIndex: chunk.chunkIndex.toString(),
-        text: chunk.text,
-      },
-    }));
-
-    // Batch upsert to avoid request size limits (Pinecone recommends batches of 100 or less)
-    const BATCH_SIZE = 100;
-    for (let i = 0; i < vectors.length; i += BATCH_SIZE) {
-      const batch = vectors.slice(i, i + BATCH_SIZE);
-      await index.upsert(batch);
-      logger.log(`Upserted batch ${i / BATCH_SIZE + 1} of ${Math.ceil(vectors.length / BATCH_SIZE)}`);
+    const previous = await getActiveVersion(documentKey);
+    if (previous && !ingestion.options.replace) {
+      throw new DocumentExistsError(documentKey, previous.storagePath);
     }
+    ingestion.contentHash = contentHash;
+    ingestion.previous = previous;
+  }
 
-    // Clean up temporary file
-    await fs.unlink(filePath).catch(err => logger.error('Failed to delete temp file:', err));
+  logger.log(`${logPrefix}Parsing document: ${safeFileName}`);
+  const parsedDoc = await parseDocument(ingestion.filePath, safeFileName);
 
-    return {
-      success: true,
+  if (!ingestion.options.pineconeOnly) {
+    const { uploader } = ingestion.options;
+    ingestion.record = await getDocumentStore().insert({
+      documentKey,
+      version: await getNextVersionNumber(documentKey),
+      originalName: ingestion.originalFileName,
       fileName: safeFileName,
-      folder: safeFolder,
-      storagePath: storagePath,
+      fileType: ingestion.fileType,
+      folder: ingestion.safeFolder || "",
+      storagePath: ingestion.storagePath,
+      contentHash: ingestion.contentHash!,
+      size: fileBuffer.length,
+      pageCount: parsedDoc.metadata.pageCount,
+      chunksCount: 0,
+      uploadedBy: uploader?.id,
+      uploaderEmail: uploader?.email,
+      status: 'processing',
+    });
+  }
+
+  ingestion.parsedDoc = parsedDoc;
+  ingestion.fileBuffer = fileBuffer;
+}
+
+// 2. Upload to object storage
+async function storeStage(ingestion: Ingestion): Promise<void> {
+  const storage = getStorageProvider();
+  logger.log(`Uploading to ${storage.name} storage: ${ingestion.storagePath}`);
+
+  // A retry may find the object already stored by the failed attempt
+  if (await storage.stat(ingestion.storagePath)) return;
+
+  await storage.put(ingestion.storagePath, ingestion.fileBuffer!, {
+    contentType: getContentType(ingestion.safeFileName),
+    upsert: false,
+  });
+}
+
+// 3. Chunk the text
+function chunkStage(ingestion: Ingestion): void {
+  logger.log(`${ingestion.logPrefix}Chunking text for: ${ingestion.safeFileName}`);
+  ingestion.chunks = chunkDocument(ingestion.parsedDoc!);
+}
+
+// 4. Generate embeddings
+async function embedStage(ingestion: Ingestion, onProgress?: ProgressCallback): Promise<void> {
+  logger.log(`${ingestion.logPrefix}Generating embeddings for ${ingestion.chunks!.length} chunks...`);
+  ingestion.embeddings = await embedChunks(ingestion.chunks!, onProgress);
+}
+
+// 5. Store in the vector store and keyword index, then activate the version and retire the one it replaces
+async function upsertStage(ingestion: Ingestion, onProgress?: ProgressCallback): Promise<void> {
+  const chunks = ingestion.chunks!;
+  const vectors = buildVectorRecords(chunks, ingestion.embeddings!, getIndexTarget(ingestion));
+  await storeVectorRecords(vectors, ingestion.logPrefix, onProgress);
+
+  const { record, previous } = ingestion;
+  if (!record) return; // pineconeOnly
+
+  if (record.status !== 'active') {
+    if (previous) {
+      ingestion.changes = summarizeChanges(
+        await getIndexedTexts(previous.storagePath),
+        chunks.map(chunk => chunk.text)
+      );
+    }
+
+    ingestion.record = (await getDocumentStore().update(record.id, {
+      status: 'active',
       chunksCount: chunks.length,
-      message: `Successfully uploaded and processed ${safeFileName}${safeFolder ? ` in folder "${safeFolder}"` : ""}`,
-    };
-  } catch (error) {
-    logger.error('Upload error:', error);
-    // Clean up temporary file on error
-    await fs.unlink(filePath).catch(err => logger.error('Failed to delete temp file:', err));
+      ...(ingestion.changes && { changes: ingestion.changes }),
+    })) || record;
+  }
 
-    return {
-      success: false,
-      fileName,
-      chunksCount: 0,
-      message: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    };
+  if (previous) {
+    await retireVersion(previous);
   }
 }
 
 /**
- * Upload document to Pinecone only (skip Supabase storage)
- * Useful for re-indexing documents that are already stored elsewhere
+ * Run one ingestion stage. Stages must run in INGESTION_STAGES order; a stage that
+ * failed can be run again with the same ingestion.
  */
-export async function uploadToPineconeOnly(
-  filePath: string,
-  fileName: string,
-  folderName?: string
-): Promise<UploadResult> {
+export async function runIngestionStage(
+  ingestion: Ingestion,
+  stage: IngestionStage,
+  onProgress?: ProgressCallback
+): Promise<void> {
+  if (isStageSkipped(ingestion, stage)) return;
+
+  switch (stage) {
+    case 'parse':
+      return parseStage(ingestion);
+    case 'store':
+      return storeStage(ingestion);
+    case 'chunk':
+      return chunkStage(ingestion);
+    case 'embed':
+      return embedStage(ingestion, onProgress);
+    case 'upsert':
+      return upsertStage(ingestion, onProgress);
+  }
+}
+
+/**
+ * Reflect the state of an ingestion on its document record: `failed` when a stage
+ * failed, `processing` again when it is retried. Does nothing before the record
+ * exists (parse stage) or once the version is active.
+ */
+export async function setIngestionRecordStatus(ingestion: Ingestion, status: 'processing' | 'failed'): Promise<void> {
+  const { record } = ingestion;
+  if (!record || record.status === status || record.status === 'active') return;
+
   try {
-    // --- Sanitize filename BEFORE any logic ---
-    const safeFileName = sanitizeFileName(fileName);
-    const uniqueFileName = `${Date.now()}-${safeFileName}`;
-
-    // Sanitize folder name if provided
-    const safeFolder = folderName ? sanitizeFolderName(folderName) : undefined;
-
-    // Build a reference path (not actually stored in Supabase)
-    const referencePath = safeFolder
-      ? `${safeFolder}/${uniqueFileName}`
-      : uniqueFileName;
-
-    // 1. Parse the document
-    logger.log(`[Pinecone Only] Parsing document: ${safeFileName}`);
-    const parsedDoc = await parseDocument(filePath, safeFileName);
-
-    // 2. Chunk the text
-    logger.log(`[Pinecone Only] Chunking text for: ${safeFileName}`);
-    const chunks = chunkText(parsedDoc.lines, safeFileName);
-
-    // 3. Generate embeddings
-    logger.log(`[Pinecone Only] Generating embeddings for ${chunks.length} chunks...`);
-    const chunkTexts = chunks.map(chunk => chunk.text);
-    const embeddings = await generateEmbeddings(chunkTexts);
-
-    // 4. Store in Pinecone
-    logger.log(`[Pinecone Only] Storing vectors in Pinecone...`);
-    const index = await getPineconeIndex();
-
-    const vectors = chunks.map((chunk, idx) => ({
-      id: `${referencePath}-chunk-${idx}`,
-      values: embeddings[idx],
-      metadata: {
-        fileName: chunk.fileName,
-        folder: safeFolder || "",
-        storagePath: referencePath, // Reference path, not actual Supabase path
-        lineNumber: chunk.lineNumber.toString(),
-        chunkIndex: chunk.chunkIndex.toString(),
-        text: chunk.text,
-        pineconeOnly: "true", // Flag to indicate this wasn't stored in Supabase
-      },
-    }));
-
-    // Batch upsert to avoid request size limits
-    const BATCH_SIZE = 100;
-    for (let i = 0; i < vectors.length; i += BATCH_SIZE) {
-      const batch = vectors.slice(i, i + BATCH_SIZE);
-      await index.upsert(batch);
-      logger.log(`[Pinecone Only] Upserted batch ${i / BATCH_SIZE + 1} of ${Math.ceil(vectors.length / BATCH_SIZE)}`);
-    }
+    ingestion.record = (await getDocumentStore().update(record.id, { status })) || record;
+  } catch (error) {
+    logger.error(`Failed to mark document record ${record.id} ${status}:`, error);
+  }
+}
 
-    // Clean up temporary file
-    await fs.unlink(filePath).catch(err => logger.error('Failed to delete temp file:', err));
+/**
+ * Result of an ingestion whose stages all completed.
+ */
+export function getIngestionResult(ingestion: Ingestion): UploadResult {
+  const { safeFileName, safeFolder, storagePath, record, previous, options } = ingestion;
+  const chunksCount = ingestion.chunks?.length ?? 0;
 
+  if (options.pineconeOnly) {
     return {
       success: true,
       fileName: safeFileName,
       folder: safeFolder,
-      storagePath: referencePath,
-      chunksCount: chunks.length,
+      storagePath,
+      chunksCount,
       message: `Successfully indexed ${safeFileName} in Pinecone (Supabase storage skipped)${safeFolder ? ` with folder "${safeFolder}"` : ""}`,
     };
-  } catch (error) {
-    logger.error('[Pinecone Only] Upload error:', error);
-    // Clean up temporary file on error
-    await fs.unlink(filePath).catch(err => logger.error('Failed to delete temp file:', err));
-
-    return {
-      success: false,
-      fileName,
-      chunksCount: 0,
-      message: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    };
   }
+
+  return {
+    success: true,
+    fileName: safeFileName,
+    folder: safeFolder,
+    storagePath,
+    chunksCount,
+    documentId: record?.id,
+    documentKey: ingestion.documentKey,
+    version: record?.version,
+    ...(previous && { replacedStoragePath: previous.storagePath, changes: ingestion.changes }),
+    message: previous
+      ? `Successfully replaced ${ingestion.documentKey} with version ${record?.version}`
+      : `Successfully uploaded and processed ${safeFileName}${safeFolder ? ` in folder "${safeFolder}"` : ""}`,
+  };
+}
+
+/**
+ * Result of an ingestion stopped by an error.
+ */
+export function getFailedUploadResult(fileName: string, error: unknown): UploadResult {
+  return {
+    success: false,
+    fileName,
+    chunksCount: 0,
+    message: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    errorCode: getUploadErrorCode(error),
+    ...((error instanceof DuplicateDocumentError || error instanceof DocumentExistsError) && {
+      existingStoragePath: error.existingStoragePath,
+    }),
+  };
 }
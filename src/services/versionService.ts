@@ -0,0 +1,166 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { getDocumentStore, DocumentChanges, DocumentRecord } from '../providers/documentStore';
+import { getStorageProvider } from '../providers/storage';
+import { getVectorStore } from '../providers/vectorStore';
+import { parseDocument, ParsedDocument } from '../utils/documentParser';
+import { indexParsedDocument } from './indexingService';
+import { getChunkIdPrefix, removeDocumentFromIndexes } from './documentService';
+import { runInIngestionQueue } from './ingestionJobService';
+import logger from '../utils/logger';
+
+const MAX_CHANGE_SAMPLES = 5;
+
+export interface RollbackResult {
+  restored: DocumentRecord;
+  retired?: DocumentRecord;
+}
+
+export class VersionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Document version not found: ${id}`);
+    this.name = 'VersionNotFoundError';
+  }
+}
+
+export class VersionAlreadyActiveError extends Error {
+  constructor(record: DocumentRecord) {
+    super(`Version ${record.version} of ${record.documentKey} is already the active version`);
+    this.name = 'VersionAlreadyActiveError';
+  }
+}
+
+export class VersionNotRestorableError extends Error {
+  constructor(record: DocumentRecord) {
+    super(`Version ${record.version} of ${record.documentKey} is ${record.status}; only superseded versions can be restored`);
+    this.name = 'VersionNotRestorableError';
+  }
+}
+
+/**
+ * Logical document key shared by all versions: "folder/file.pdf" or "file.pdf".
+ */
+export function getDocumentKey(fileName: string, folder?: string): string {
+  return folder ? `${folder}/${fileName}` : fileName;
+}
+
+/**
+ * Versions of a document, newest first.
+ */
+export async function getDocumentHistory(documentKey: string): Promise<DocumentRecord[]> {
+  const versions = await getDocumentStore().find({ documentKey });
+  return versions.sort((a, b) => b.version - a.version);
+}
+
+export async function getActiveVersion(documentKey: string): Promise<DocumentRecord | undefined> {
+  const [active] = await getDocumentStore().find({ documentKey, status: 'active' });
+  return active;
+}
+
+export async function getNextVersionNumber(documentKey: string): Promise<number> {
+  const versions = await getDocumentStore().find({ documentKey });
+  return versions.reduce((max, record) => Math.max(max, record.version), 0) + 1;
+}
+
+function toLineSet(texts: string[]): Set<string> {
+  return new Set(
+    texts.flatMap(text => text.split('\n')).map(line => line.trim()).filter(Boolean)
+  );
+}
+
+/**
+ * Lines of the chunk texts currently indexed for a document.
+ */
+export async function getIndexedTexts(storagePath: string): Promise<string[]> {
+  const vectorStore = getVectorStore();
+  const ids = await vectorStore.listIds(getChunkIdPrefix(storagePath));
+  if (ids.length === 0) return [];
+
+  const records = await vectorStore.fetch(ids);
+  return records.map(record => String(record.metadata?.text ?? ''));
+}
+
+/**
+ * Summarize what changed between two versions from their chunk texts
+ * (line-level, order-insensitive).
+ */
+export function summarizeChanges(previousTexts: string[], currentTexts: string[]): DocumentChanges {
+  const previous = toLineSet(previousTexts);
+  const current = toLineSet(currentTexts);
+  const added = Array.from(current).filter(line => !previous.has(line));
+  const removed = Array.from(previous).filter(line => !current.has(line));
+
+  return {
+    addedLines: added.length,
+    removedLines: removed.length,
+    sampleAdded: added.slice(0, MAX_CHANGE_SAMPLES),
+    sampleRemoved: removed.slice(0, MAX_CHANGE_SAMPLES),
+  };
+}
+
+/**
+ * Parse a stored file. The parsers read from disk, so the file goes through a
+ * temporary copy.
+ */
+export async function parseStoredDocument(storagePath: string, fileName: string): Promise<ParsedDocument> {
+  const buffer = await getStorageProvider().get(storagePath);
+  const tempPath = path.join(os.tmpdir(), `${randomUUID()}${path.extname(fileName)}`);
+  await fs.writeFile(tempPath, buffer);
+
+  try {
+    return await parseDocument(tempPath, fileName);
+  } finally {
+    await fs.unlink(tempPath).catch(err => logger.error('Failed to delete temp file:', err));
+  }
+}
+
+/**
+ * Retire the active version: remove it from the vector store, keyword index and
+ * cache, and mark it superseded. Its stored file is kept so it can be restored.
+ */
+export async function retireVersion(record: DocumentRecord): Promise<DocumentRecord> {
+  const removal = await removeDocumentFromIndexes(record.storagePath);
+  logger.log(
+    `[Versions] Retired ${record.documentKey} v${record.version} (${record.storagePath}): ` +
+    `vectors=${removal.vectorsDeleted}, keyword=${removal.keywordEntriesDeleted}, cache=${removal.cacheEntriesInvalidated}`
+  );
+  return (await getDocumentStore().update(record.id, { status: 'superseded' })) || record;
+}
+
+async function restoreVersion(id: string): Promise<RollbackResult> {
+  const documentStore = getDocumentStore();
+  const target = await documentStore.get(id);
+  if (!target) throw new VersionNotFoundError(id);
+  if (target.status === 'active') throw new VersionAlreadyActiveError(target);
+  if (target.status !== 'superseded') throw new VersionNotRestorableError(target);
+
+  const current = await getActiveVersion(target.documentKey);
+
+  logger.log(`[Versions] Restoring ${target.documentKey} v${target.version} from ${target.storagePath}`);
+  const parsedDoc = await parseStoredDocument(target.storagePath, target.fileName);
+  const chunks = await indexParsedDocument(parsedDoc, {
+    storagePath: target.storagePath,
+    folder: target.folder,
+    fileType: path.extname(target.fileName).replace('.', '').toLowerCase(),
+    uploadedAt: Date.parse(target.createdAt),
+    logPrefix: '[Versions] ',
+  });
+
+  const retired = current ? await retireVersion(current) : undefined;
+  const restored = (await documentStore.update(target.id, { status: 'active', chunksCount: chunks.length })) || target;
+
+  return { restored, retired };
+}
+
+/**
+ * Make an earlier version the active one again: its stored file is re-indexed under
+ * its original storage path and the current version is retired. No new version is
+ * created; the restored record keeps its version number.
+ * Runs in the ingestion queue, so it never interleaves with an upload replacing the
+ * same document.
+ */
+export function rollbackToVersion(id: string): Promise<RollbackResult> {
+  return runInIngestionQueue(() => restoreVersion(id));
+}
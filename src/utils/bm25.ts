@@ -0,0 +1,165 @@
+/**
+ * Minimal BM25 inverted index over text chunks.
+ * Pure in-memory structure; persistence is handled by keywordIndexService.
+ */
+
+export interface Bm25Document {
+  id: string;
+  text: string;
+  metadata: Record<string, any>;
+}
+
+export interface Bm25Match {
+  id: string;
+  score: number;
+  metadata: Record<string, any>;
+}
+
+interface IndexedDocument {
+  id: string;
+  metadata: Record<string, any>;
+  termFrequencies: Record<string, number>;
+  length: number;
+}
+
+export interface SerializedBm25Index {
+  version: 1;
+  documents: IndexedDocument[];
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  // French
+  'le', 'la', 'les', 'un', 'une', 'des', 'de', 'du', 'et', 'ou', 'en', 'au', 'aux', 'ce', 'ces',
+  'pour', 'par', 'sur', 'dans', 'avec', 'est', 'sont', 'que', 'qui', 'quoi', 'quel', 'quelle',
+  'quels', 'quelles', 'mon', 'ma', 'mes', 'votre', 'vos', 'il', 'elle', 'je', 'tu', 'nous', 'vous',
+  'ne', 'pas', 'se', 'sa', 'son', 'ses', 'comment',
+  // English
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'is', 'are', 'what',
+  'which', 'how', 'my', 'your', 'it', 'be', 'at', 'by', 'from', 'this', 'that', 'do', 'does'
+]);
+
+/**
+ * Lowercase, strip accents and split on anything that isn't a letter or digit.
+ * Single characters are dropped unless they are digits ("4g" stays "4g", "3" stays "3").
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0 && !STOPWORDS.has(token) && (token.length > 1 || /\d/.test(token)));
+}
+
+export class Bm25Index {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  add(document: Bm25Document): void {
+    if (this.documents.has(document.id)) {
+      this.remove(document.id);
+    }
+
+    const termFrequencies: Record<string, number> = {};
+    const tokens = tokenize(document.text);
+    for (const token of tokens) {
+      termFrequencies[token] = (termFrequencies[token] || 0) + 1;
+    }
+
+    this.insert({ id: document.id, metadata: document.metadata, termFrequencies, length: tokens.length });
+  }
+
+  remove(id: string): boolean {
+    const document = this.documents.get(id);
+    if (!document) return false;
+
+    for (const term of Object.keys(document.termFrequencies)) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && posting.size === 0) this.postings.delete(term);
+    }
+
+    this.totalLength -= document.length;
+    this.documents.delete(id);
+    return true;
+  }
+
+  // Remove every document whose id starts with the prefix; returns the number removed
+  removeByPrefix(prefix: string): number {
+    let removed = 0;
+    for (const id of Array.from(this.documents.keys())) {
+      if (id.startsWith(prefix) && this.remove(id)) removed++;
+    }
+    return removed;
+  }
+
+  ids(): string[] {
+    return Array.from(this.documents.keys());
+  }
+
+  search(query: string, topK: number, accept?: (metadata: Record<string, any>) => boolean): Bm25Match[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.documents.size === 0) return [];
+
+    const documentCount = this.documents.size;
+    const averageLength = this.totalLength / documentCount || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const [id, frequency] of posting) {
+        const document = this.documents.get(id)!;
+        const norm = frequency + K1 * (1 - B + B * (document.length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + idf * ((frequency * (K1 + 1)) / norm));
+      }
+    }
+
+    const matches: Bm25Match[] = [];
+    for (const [id, score] of scores) {
+      const document = this.documents.get(id)!;
+      if (accept && !accept(document.metadata)) continue;
+      matches.push({ id, score, metadata: document.metadata });
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    return matches.slice(0, topK);
+  }
+
+  toJSON(): SerializedBm25Index {
+    return { version: 1, documents: Array.from(this.documents.values()) };
+  }
+
+  static fromJSON(data: SerializedBm25Index): Bm25Index {
+    const index = new Bm25Index();
+    for (const document of data.documents || []) {
+      index.insert(document);
+    }
+    return index;
+  }
+
+  private insert(document: IndexedDocument): void {
+    this.documents.set(document.id, document);
+    this.totalLength += document.length;
+
+    for (const [term, frequency] of Object.entries(document.termFrequencies)) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(document.id, frequency);
+    }
+  }
+}
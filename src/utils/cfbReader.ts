@@ -0,0 +1,188 @@
+/**
+ * Minimal reader for Compound File Binary (OLE2) containers, the format of legacy
+ * Office files (.doc, .xls, .ppt). Only reading named streams is supported.
+ * Spec: [MS-CFB] https://learn.microsoft.com/openspecs/windows_protocols/ms-cfb
+ */
+
+const SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+const FREE_SECT = 0xffffffff;
+const END_OF_CHAIN = 0xfffffffe;
+const MAX_REGULAR_SECT = 0xfffffffa;
+const DIRECTORY_ENTRY_SIZE = 128;
+const HEADER_DIFAT_ENTRIES = 109;
+
+interface DirectoryEntry {
+  name: string;
+  type: number; // 1 = storage, 2 = stream, 5 = root
+  startSector: number;
+  size: number;
+}
+
+export class CfbFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CfbFormatError';
+  }
+}
+
+export function isCompoundFile(buffer: Buffer): boolean {
+  return buffer.length >= 512 && buffer.subarray(0, 8).equals(SIGNATURE);
+}
+
+export class CompoundFile {
+  private readonly sectorSize: number;
+  private readonly miniSectorSize: number;
+  private readonly miniStreamCutoff: number;
+  private readonly fat: number[];
+  private readonly miniFat: number[];
+  private readonly entries: DirectoryEntry[];
+  private miniStream?: Buffer;
+
+  constructor(private readonly buffer: Buffer) {
+    if (!isCompoundFile(buffer)) {
+      throw new CfbFormatError('Not a compound file (bad signature)');
+    }
+
+    this.sectorSize = 1 << buffer.readUInt16LE(0x1e);
+    this.miniSectorSize = 1 << buffer.readUInt16LE(0x20);
+    this.miniStreamCutoff = buffer.readUInt32LE(0x38);
+
+    const fatSectorCount = buffer.readUInt32LE(0x2c);
+    const firstDirectorySector = buffer.readUInt32LE(0x30);
+    const firstMiniFatSector = buffer.readUInt32LE(0x3c);
+    const firstDifatSector = buffer.readUInt32LE(0x44);
+
+    this.fat = this.readFat(fatSectorCount, firstDifatSector);
+    this.miniFat = firstMiniFatSector >= MAX_REGULAR_SECT
+      ? []
+      : this.readSectorInts(this.readChain(firstMiniFatSector));
+    this.entries = this.readDirectory(firstDirectorySector);
+  }
+
+  /**
+   * Names of the streams in the container (all storages flattened).
+   */
+  listStreams(): string[] {
+    return this.entries.filter(entry => entry.type === 2).map(entry => entry.name);
+  }
+
+  /**
+   * Read a stream by name. Returns undefined when the container has no such stream.
+   */
+  getStream(name: string): Buffer | undefined {
+    const entry = this.entries.find(candidate => candidate.type === 2 && candidate.name === name);
+    if (!entry) return undefined;
+
+    if (entry.size < this.miniStreamCutoff) {
+      return this.readMiniStream(entry.startSector, entry.size);
+    }
+    return this.readChain(entry.startSector).subarray(0, entry.size);
+  }
+
+  private sectorOffset(sector: number): number {
+    // Sector 0 starts right after the header, which is one sector long (512 bytes for v3 files)
+    return (sector + 1) * this.sectorSize;
+  }
+
+  private readSector(sector: number): Buffer {
+    const offset = this.sectorOffset(sector);
+    if (offset + this.sectorSize > this.buffer.length) {
+      throw new CfbFormatError(`Sector ${sector} is outside the file`);
+    }
+    return this.buffer.subarray(offset, offset + this.sectorSize);
+  }
+
+  private readSectorInts(data: Buffer): number[] {
+    const values: number[] = [];
+    for (let offset = 0; offset + 4 <= data.length; offset += 4) {
+      values.push(data.readUInt32LE(offset));
+    }
+    return values;
+  }
+
+  private readFat(fatSectorCount: number, firstDifatSector: number): number[] {
+    const fatSectors: number[] = [];
+
+    for (let i = 0; i < HEADER_DIFAT_ENTRIES && fatSectors.length < fatSectorCount; i++) {
+      fatSectors.push(this.buffer.readUInt32LE(0x4c + i * 4));
+    }
+
+    // Larger files continue the FAT sector list in DIFAT sectors; the last entry of each links to the next
+    let difatSector = firstDifatSector;
+    const visited = new Set<number>();
+    while (fatSectors.length < fatSectorCount && difatSector < MAX_REGULAR_SECT && !visited.has(difatSector)) {
+      visited.add(difatSector);
+      const entries = this.readSectorInts(this.readSector(difatSector));
+      for (const sector of entries.slice(0, -1)) {
+        if (fatSectors.length >= fatSectorCount) break;
+        fatSectors.push(sector);
+      }
+      difatSector = entries[entries.length - 1];
+    }
+
+    return fatSectors.flatMap(sector => this.readSectorInts(this.readSector(sector)));
+  }
+
+  private readChain(startSector: number): Buffer {
+    const sectors: Buffer[] = [];
+    const visited = new Set<number>();
+    let sector = startSector;
+
+    while (sector !== END_OF_CHAIN && sector !== FREE_SECT) {
+      if (sector > MAX_REGULAR_SECT || visited.has(sector) || sector >= this.fat.length) {
+        throw new CfbFormatError(`Corrupt sector chain at sector ${sector}`);
+      }
+      visited.add(sector);
+      sectors.push(this.readSector(sector));
+      sector = this.fat[sector];
+    }
+
+    return Buffer.concat(sectors);
+  }
+
+  private readDirectory(firstDirectorySector: number): DirectoryEntry[] {
+    const data = this.readChain(firstDirectorySector);
+    const entries: DirectoryEntry[] = [];
+
+    for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= data.length; offset += DIRECTORY_ENTRY_SIZE) {
+      const nameLength = data.readUInt16LE(offset + 0x40);
+      const type = data.readUInt8(offset + 0x42);
+      if (type === 0 || nameLength < 2) continue;
+
+      entries.push({
+        name: data.toString('utf16le', offset, offset + nameLength - 2),
+        type,
+        startSector: data.readUInt32LE(offset + 0x74),
+        // Only the low 32 bits are used; v3 files must ignore the high part
+        size: data.readUInt32LE(offset + 0x78),
+      });
+    }
+
+    if (entries.length === 0 || entries[0].type !== 5) {
+      throw new CfbFormatError('Missing root directory entry');
+    }
+    return entries;
+  }
+
+  private readMiniStream(startSector: number, size: number): Buffer {
+    // The mini stream lives in the root entry's regular sector chain
+    this.miniStream ??= this.readChain(this.entries[0].startSector);
+
+    const chunks: Buffer[] = [];
+    const visited = new Set<number>();
+    let sector = startSector;
+
+    while (sector !== END_OF_CHAIN && sector !== FREE_SECT) {
+      if (visited.has(sector) || sector >= this.miniFat.length) {
+        throw new CfbFormatError(`Corrupt mini sector chain at sector ${sector}`);
+      }
+      visited.add(sector);
+      const offset = sector * this.miniSectorSize;
+      chunks.push(this.miniStream.subarray(offset, offset + this.miniSectorSize));
+      sector = this.miniFat[sector];
+    }
+
+    return Buffer.concat(chunks).subarray(0, size);
+  }
+}
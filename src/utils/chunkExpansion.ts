@@ -0,0 +1,200 @@
+import { getVectorStore } from '../providers/vectorStore';
+import { RankedDocument } from './reranker';
+import logger from './logger';
+
+export type ExpansionMode = 'none' | 'neighbors' | 'parent';
+
+export interface ExpansionConfig {
+  mode: ExpansionMode;
+  window: number; // neighbors: chunks added on each side of a hit
+  parentSize: number; // parent: number of consecutive chunks forming a parent section
+}
+
+export const DEFAULT_EXPANSION_CONFIG: ExpansionConfig = {
+  mode: 'none',
+  window: 1,
+  parentSize: 4
+};
+
+const MAX_WINDOW = 5;
+const MAX_PARENT_SIZE = 12;
+
+export class InvalidExpansionOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidExpansionOptionsError';
+  }
+}
+
+/**
+ * Validate the `expansion` object of a request body.
+ */
+export function parseExpansionOptions(raw: unknown): Partial<ExpansionConfig> | undefined {
+  if (raw === undefined || raw === null) return undefined;
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new InvalidExpansionOptionsError('expansion must be an object');
+  }
+
+  const { mode, window, parentSize } = raw as Record<string, unknown>;
+  const options: Partial<ExpansionConfig> = {};
+
+  if (mode !== undefined) {
+    if (mode !== 'none' && mode !== 'neighbors' && mode !== 'parent') {
+      throw new InvalidExpansionOptionsError('expansion.mode must be one of: none, neighbors, parent');
+    }
+    options.mode = mode;
+  }
+  if (window !== undefined) {
+    if (!Number.isInteger(window) || (window as number) < 1 || (window as number) > MAX_WINDOW) {
+      throw new InvalidExpansionOptionsError(`expansion.window must be an integer between 1 and ${MAX_WINDOW}`);
+    }
+    options.window = window as number;
+  }
+  if (parentSize !== undefined) {
+    if (!Number.isInteger(parentSize) || (parentSize as number) < 2 || (parentSize as number) > MAX_PARENT_SIZE) {
+      throw new InvalidExpansionOptionsError(`expansion.parentSize must be an integer between 2 and ${MAX_PARENT_SIZE}`);
+    }
+    options.parentSize = parentSize as number;
+  }
+
+  return options;
+}
+
+interface Span {
+  storagePath: string;
+  start: number;
+  end: number;
+  hits: RankedDocument[];
+}
+
+function chunkId(storagePath: string, chunkIndex: number): string {
+  return `${storagePath}-chunk-${chunkIndex}`;
+}
+
+// Chunks overlap by a few lines; drop the lines of `next` that repeat the end of `previous`
+function appendWithoutOverlap(previous: string, next: string): string {
+  const previousLines = previous.split('\n');
+  const nextLines = next.split('\n');
+  const maxOverlap = Math.min(previousLines.length, nextLines.length, 5);
+
+  for (let overlap = maxOverlap; overlap > 0; overlap--) {
+    const tail = previousLines.slice(-overlap).join('\n');
+    const head = nextLines.slice(0, overlap).join('\n');
+    if (tail === head) {
+      return [previous, ...nextLines.slice(overlap)].join('\n');
+    }
+  }
+
+  return `${previous}\n${next}`;
+}
+
+/**
+ * Expand selected chunks with their neighbors (±window chunkIndex) or with the
+ * parent section they belong to (fixed blocks of parentSize chunks), fetched from
+ * the vector store by id. Overlapping or adjacent spans of the same file are merged
+ * into a single passage so no text is duplicated. Passages keep the order of their
+ * best hit, and take its scores.
+ */
+export async function expandChunks(
+  documents: RankedDocument[],
+  config: Partial<ExpansionConfig> = {}
+): Promise<RankedDocument[]> {
+  const { mode, window, parentSize } = { ...DEFAULT_EXPANSION_CONFIG, ...config };
+  if (mode === 'none' || documents.length === 0) return documents;
+
+  // 1. Compute the span of each hit; hits without a storage path or chunk index stay as they are
+  const spansByFile = new Map<string, Span[]>();
+  const passthrough: RankedDocument[] = [];
+
+  for (const doc of documents) {
+    const storagePath = doc.metadata.storagePath as string | undefined;
+    const chunkIndex = parseInt(doc.metadata.chunkIndex, 10);
+
+    if (!storagePath || Number.isNaN(chunkIndex)) {
+      passthrough.push(doc);
+      continue;
+    }
+
+    const start = mode === 'neighbors'
+      ? Math.max(0, chunkIndex - window)
+      : Math.floor(chunkIndex / parentSize) * parentSize;
+    const end = mode === 'neighbors'
+      ? chunkIndex + window
+      : start + parentSize - 1;
+
+    const spans = spansByFile.get(storagePath) || [];
+    spans.push({ storagePath, start, end, hits: [doc] });
+    spansByFile.set(storagePath, spans);
+  }
+
+  // 2. Merge overlapping or adjacent spans of the same file
+  const merged: Span[] = [];
+  for (const spans of spansByFile.values()) {
+    spans.sort((a, b) => a.start - b.start);
+    let current = spans[0];
+
+    for (const span of spans.slice(1)) {
+      if (span.start <= current.end + 1) {
+        current = { ...current, end: Math.max(current.end, span.end), hits: [...current.hits, ...span.hits] };
+      } else {
+        merged.push(current);
+        current = span;
+      }
+    }
+    merged.push(current);
+  }
+
+  // 3. Fetch every chunk of every span (hits are already known)
+  const known = new Map<string, Record<string, any>>(
+    documents.map(doc => [doc.id, doc.metadata])
+  );
+  const missingIds = merged
+    .flatMap(span => Array.from({ length: span.end - span.start + 1 }, (_, i) => chunkId(span.storagePath, span.start + i)))
+    .filter(id => !known.has(id));
+
+  if (missingIds.length > 0) {
+    const records = await getVectorStore().fetch(missingIds);
+    for (const record of records) {
+      known.set(record.id, record.metadata || {});
+    }
+  }
+
+  // 4. Build one passage per span
+  const rankOf = new Map(documents.map((doc, rank) => [doc, rank]));
+  const expanded = merged.map(span => {
+    const best = span.hits.reduce((a, b) => (rankOf.get(b)! < rankOf.get(a)! ? b : a));
+    const chunks: Array<Record<string, any>> = [];
+
+    for (let index = span.start; index <= span.end; index++) {
+      const metadata = known.get(chunkId(span.storagePath, index));
+      if (metadata?.text) chunks.push(metadata);
+    }
+    // No chunk of the span has text (e.g. vectors stored without it): keep the hit as it is
+    if (chunks.length === 0) return best;
+
+    const text = chunks.map(chunk => chunk.text as string).reduce(appendWithoutOverlap);
+    const firstChunkIndex = parseInt(chunks[0].chunkIndex, 10);
+    const lastChunkIndex = parseInt(chunks[chunks.length - 1].chunkIndex, 10);
+
+    const passage: RankedDocument = {
+      ...best,
+      metadata: {
+        ...best.metadata,
+        text,
+        lineNumber: chunks[0].lineNumber ?? best.metadata.lineNumber,
+        page: chunks[0].page ?? best.metadata.page,
+        lineInPage: chunks[0].lineInPage ?? best.metadata.lineInPage,
+        chunkIndex: String(firstChunkIndex),
+        chunkRange: `${firstChunkIndex}-${lastChunkIndex}`,
+        hitCount: span.hits.length
+      }
+    };
+    rankOf.set(passage, rankOf.get(best)!);
+    return passage;
+  });
+
+  const result = [...expanded, ...passthrough].sort((a, b) => rankOf.get(a)! - rankOf.get(b)!);
+  logger.log(`[Expansion] ${mode}: ${documents.length} hits → ${result.length} passages (${missingIds.length} chunks fetched)`);
+  return result;
+}
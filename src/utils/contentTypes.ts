@@ -0,0 +1,39 @@
+import path from 'path';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.doc': 'application/msword',
+  '.txt': 'text/plain; charset=utf-8',
+  '.md': 'text/markdown; charset=utf-8',
+  '.markdown': 'text/markdown; charset=utf-8',
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.csv': 'text/csv; charset=utf-8',
+  '.tsv': 'text/tab-separated-values; charset=utf-8',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+/**
+ * Extensions accepted for upload (every type parseDocument understands).
+ */
+export const SUPPORTED_EXTENSIONS = Object.keys(CONTENT_TYPES);
+
+/**
+ * Get the MIME type for a file name or storage path from its extension.
+ */
+export function getContentType(fileName: string): string {
+  const ext = path.extname(fileName).toLowerCase();
+  return CONTENT_TYPES[ext] || 'application/octet-stream';
+}
+
+// Types a browser would render as an active document on our origin (scripts run)
+const ACTIVE_CONTENT_TYPES = ['text/html', 'application/xhtml+xml', 'image/svg+xml', 'text/xml', 'application/xml'];
+
+/**
+ * Whether serving the type inline would let an uploaded file run script in the browser.
+ */
+export function isActiveContentType(contentType: string): boolean {
+  return ACTIVE_CONTENT_TYPES.includes(contentType.split(';')[0].trim().toLowerCase());
+}
@@ -0,0 +1,106 @@
+import { RankedDocument } from './reranker';
+
+export interface ContextBudgetConfig {
+  maxTokens: number; // Token budget for all context passages together
+  minChunkTokens: number; // Below this, a chunk is dropped instead of truncated
+  minRelativeScore: number; // Chunks scoring under this fraction of the best score are dropped
+}
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudgetConfig = {
+  maxTokens: parseInt(process.env.CONTEXT_TOKEN_BUDGET || '', 10) || 3000,
+  minChunkTokens: 60,
+  minRelativeScore: 0.25
+};
+
+export interface ContextEntry {
+  id: string;
+  score: number;
+  tokens: number;
+}
+
+export interface ContextBuildResult {
+  contexts: string[];
+  included: Array<ContextEntry & { truncated: boolean }>;
+  excluded: Array<ContextEntry & { reason: 'low-score' | 'budget' }>;
+  usedTokens: number;
+  budget: number;
+}
+
+/**
+ * Rough token estimate without a tokenizer: ~4 characters per token for Latin
+ * script, ~2 for other scripts (Arabic words split into more tokens).
+ */
+export function estimateTokens(text: string): number {
+  const nonLatin = (text.match(/[^\u0000-\u024F]/g) || []).length;
+  const latin = text.length - nonLatin;
+  return Math.ceil(latin / 4 + nonLatin / 2);
+}
+
+// Cut text to roughly `maxTokens`, preferring to end on a line or sentence boundary
+function truncateToTokens(text: string, maxTokens: number): string {
+  const suffix = ' [...]';
+  const limit = maxTokens - estimateTokens(suffix);
+  let end = text.length;
+  while (end > 0 && estimateTokens(text.slice(0, end)) > limit) {
+    end = Math.floor(end * 0.9);
+  }
+
+  const slice = text.slice(0, end);
+  const boundary = Math.max(slice.lastIndexOf('\n'), slice.lastIndexOf('. '));
+  return (boundary > end * 0.5 ? slice.slice(0, boundary + 1) : slice).trimEnd() + suffix;
+}
+
+/**
+ * Fill the context budget with passages in priority order (the order of `documents`).
+ * Low-scoring chunks are dropped, the chunk that crosses the budget is truncated when
+ * enough room is left, and everything after the budget is exhausted is excluded.
+ */
+export function buildContext(
+  documents: RankedDocument[],
+  format: (doc: RankedDocument) => string,
+  config: Partial<ContextBudgetConfig> = {}
+): ContextBuildResult & { documents: RankedDocument[] } {
+  const { maxTokens, minChunkTokens, minRelativeScore } = { ...DEFAULT_CONTEXT_BUDGET, ...config };
+  const topScore = Math.max(0, ...documents.map(doc => doc.finalScore));
+
+  const result: ContextBuildResult & { documents: RankedDocument[] } = {
+    contexts: [],
+    documents: [],
+    included: [],
+    excluded: [],
+    usedTokens: 0,
+    budget: maxTokens
+  };
+
+  for (const doc of documents) {
+    const text = format(doc);
+    const tokens = estimateTokens(text);
+    const entry = { id: doc.id, score: doc.finalScore, tokens };
+
+    // Always keep the best chunk; drop the rest if far below it
+    if (result.included.length > 0 && doc.finalScore < topScore * minRelativeScore) {
+      result.excluded.push({ ...entry, reason: 'low-score' });
+      continue;
+    }
+
+    const remaining = maxTokens - result.usedTokens;
+
+    if (tokens <= remaining) {
+      result.contexts.push(text);
+      result.documents.push(doc);
+      result.included.push({ ...entry, truncated: false });
+      result.usedTokens += tokens;
+    } else if (remaining >= minChunkTokens) {
+      const truncated = truncateToTokens(text, remaining);
+      const truncatedTokens = estimateTokens(truncated);
+      result.contexts.push(truncated);
+      result.documents.push(doc);
+      result.included.push({ ...entry, tokens: truncatedTokens, truncated: true });
+      result.usedTokens += truncatedTokens;
+    } else {
+      result.excluded.push({ ...entry, reason: 'budget' });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,127 @@
+import { RankedDocument } from './reranker';
+import { tokenize } from './bm25';
+import logger from './logger';
+
+export interface DiversityConfig {
+  enabled: boolean;
+  lambda: number; // 1 = pure relevance, 0 = pure diversity
+  maxPerFile?: number; // Optional cap on chunks selected from the same file
+}
+
+export const DEFAULT_DIVERSITY_CONFIG: DiversityConfig = {
+  enabled: true,
+  lambda: 0.7
+};
+
+export class InvalidDiversityOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidDiversityOptionsError';
+  }
+}
+
+/**
+ * Validate the `diversity` object of a request body.
+ */
+export function parseDiversityOptions(raw: unknown): Partial<DiversityConfig> | undefined {
+  if (raw === undefined || raw === null) return undefined;
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new InvalidDiversityOptionsError('diversity must be an object');
+  }
+
+  const { enabled, lambda, maxPerFile } = raw as Record<string, unknown>;
+  const options: Partial<DiversityConfig> = {};
+
+  if (enabled !== undefined) {
+    if (typeof enabled !== 'boolean') throw new InvalidDiversityOptionsError('diversity.enabled must be a boolean');
+    options.enabled = enabled;
+  }
+  if (lambda !== undefined) {
+    if (typeof lambda !== 'number' || lambda < 0 || lambda > 1) {
+      throw new InvalidDiversityOptionsError('diversity.lambda must be a number between 0 and 1');
+    }
+    options.lambda = lambda;
+  }
+  if (maxPerFile !== undefined) {
+    if (!Number.isInteger(maxPerFile) || (maxPerFile as number) < 1) {
+      throw new InvalidDiversityOptionsError('diversity.maxPerFile must be a positive integer');
+    }
+    options.maxPerFile = maxPerFile as number;
+  }
+
+  return options;
+}
+
+// Documents from the same stored file share a storagePath; older vectors only have folder + fileName
+function getFileKey(doc: RankedDocument): string {
+  return doc.metadata.storagePath || `${doc.metadata.folder || ''}/${doc.metadata.fileName}`;
+}
+
+// Jaccard similarity of the token sets, cheap and good at spotting overlapping or repeated passages
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let intersection = 0;
+  const [smaller, larger] = a.size < b.size ? [a, b] : [b, a];
+  for (const token of smaller) {
+    if (larger.has(token)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * Select `count` documents with Maximal Marginal Relevance:
+ * at each step pick the candidate maximizing λ·relevance − (1−λ)·max similarity to those already picked,
+ * skipping candidates whose file already reached `maxPerFile`.
+ * Candidates must be sorted by finalScore (descending), as returned by rerankDocuments.
+ */
+export function selectWithMmr(
+  candidates: RankedDocument[],
+  count: number,
+  config: Partial<DiversityConfig> = {}
+): RankedDocument[] {
+  const { lambda, maxPerFile } = { ...DEFAULT_DIVERSITY_CONFIG, ...config };
+
+  const maxScore = candidates[0]?.finalScore || 1;
+  const tokenSets = candidates.map(doc => new Set(tokenize(doc.metadata.text || '')));
+  const remaining = candidates.map((_, index) => index);
+  const selected: number[] = [];
+  const perFile = new Map<string, number>();
+
+  while (selected.length < count && remaining.length > 0) {
+    let bestPosition = -1;
+    let bestScore = -Infinity;
+
+    for (let position = 0; position < remaining.length; position++) {
+      const index = remaining[position];
+      const doc = candidates[index];
+
+      if (maxPerFile !== undefined && (perFile.get(getFileKey(doc)) || 0) >= maxPerFile) continue;
+
+      const relevance = doc.finalScore / maxScore;
+      const redundancy = selected.reduce(
+        (max, selectedIndex) => Math.max(max, jaccard(tokenSets[index], tokenSets[selectedIndex])),
+        0
+      );
+      const score = lambda * relevance - (1 - lambda) * redundancy;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestPosition = position;
+      }
+    }
+
+    // Every remaining candidate is blocked by the per-file cap
+    if (bestPosition === -1) break;
+
+    const [index] = remaining.splice(bestPosition, 1);
+    selected.push(index);
+    const fileKey = getFileKey(candidates[index]);
+    perFile.set(fileKey, (perFile.get(fileKey) || 0) + 1);
+  }
+
+  logger.log(`[Diversity] Selected ${selected.length} of ${candidates.length} candidates (λ=${lambda}${maxPerFile !== undefined ? `, maxPerFile=${maxPerFile}` : ''}) from ${perFile.size} files`);
+
+  return selected.map(index => candidates[index]);
+}
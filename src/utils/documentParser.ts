@@ -2,10 +2,35 @@ import pdfParse from 'pdf-parse';
 import mammoth from 'mammoth';
 import fs from 'fs/promises';
 import logger from './logger';
+import {
+  ParsedTable, StructuredText, structureFromHtml, structureFromPdfItems, structureFromMarkdown, structureFromDelimited
+} from './tableExtractor';
+import { parseXlsxBuffer, parsePptxBuffer } from './officeParser';
+import { parseDocBuffer } from './wordBinaryParser';
+import { isCompoundFile } from './cfbReader';
+
+/**
+ * Raised when a file can't be read: corrupt, encrypted, unsupported variant of a
+ * format, or unsupported extension. The message is meant for the uploader.
+ */
+export class DocumentParseError extends Error {
+  constructor(public readonly fileName: string, public readonly reason: string) {
+    super(`Could not read "${fileName}": ${reason}`);
+    this.name = 'DocumentParseError';
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
 
 export interface ParsedDocument {
   text: string;
   lines: string[];
+  // PDFs only: index in `lines` of the first line of each page (pageStarts[0] is page 1)
+  pageStarts?: number[];
+  // Tables found in the document; their rows also appear in `lines` as "cell | cell"
+  tables?: ParsedTable[];
   metadata: {
     fileName: string;
     fileType: string;
@@ -13,16 +38,45 @@ export interface ParsedDocument {
   };
 }
 
+// Lay out a page's text items into lines and tables
+async function renderPage(pageData: any): Promise<StructuredText> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+  return structureFromPdfItems(textContent.items);
+}
+
 export async function parsePDF(filePath: string, fileName: string): Promise<ParsedDocument> {
   try {
     const dataBuffer = await fs.readFile(filePath);
-    const pdfData = await pdfParse(dataBuffer);
-    
-    const lines = pdfData.text.split('\n').filter((line: string) => line.trim().length > 0);
-    
+
+    // Render pages ourselves so page boundaries and table layout survive extraction
+    const pages: StructuredText[] = [];
+    const pdfData = await pdfParse(dataBuffer, {
+      pagerender: async (pageData: any) => {
+        const page = await renderPage(pageData);
+        pages[pageData.pageIndex] = page;
+        return page.lines.join('\n');
+      },
+    });
+
+    const lines: string[] = [];
+    const pageStarts: number[] = [];
+    const tables: ParsedTable[] = [];
+    for (let pageIndex = 0; pageIndex < pdfData.numpages; pageIndex++) {
+      const page = pages[pageIndex] || { lines: [], tables: [] };
+      const offset = lines.length;
+      pageStarts.push(offset);
+      tables.push(...page.tables.map(table => ({ ...table, lineNumber: table.lineNumber + offset })));
+      lines.push(...page.lines);
+    }
+
     return {
       text: pdfData.text,
       lines,
+      pageStarts,
+      tables,
       metadata: {
         fileName,
         fileType: 'pdf',
@@ -31,20 +85,40 @@ export async function parsePDF(filePath: string, fileName: string): Promise<Pars
     };
   } catch (error) {
     logger.error('Error parsing PDF:', error);
-    throw new Error(`Failed to parse PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new DocumentParseError(fileName, `failed to parse PDF (${describeError(error)})`);
   }
 }
 
+/**
+ * Map a 1-based line number of a parsed document to its page and line within that page.
+ * Returns undefined for documents without page boundaries.
+ */
+export function locateLine(
+  document: ParsedDocument,
+  lineNumber: number
+): { page: number; lineInPage: number } | undefined {
+  const pageStarts = document.pageStarts;
+  if (!pageStarts || pageStarts.length === 0) return undefined;
+
+  const lineIndex = lineNumber - 1;
+  let pageIndex = 0;
+  while (pageIndex + 1 < pageStarts.length && pageStarts[pageIndex + 1] <= lineIndex) {
+    pageIndex++;
+  }
+
+  return { page: pageIndex + 1, lineInPage: lineIndex - pageStarts[pageIndex] + 1 };
+}
+
 export async function parseWord(filePath: string, fileName: string): Promise<ParsedDocument> {
   try {
-    const result = await mammoth.extractRawText({ path: filePath });
-    const text = result.value;
-    
-    const lines = text.split('\n').filter((line: string) => line.trim().length > 0);
-    
+    // The HTML conversion keeps headings, lists and tables that extractRawText flattens
+    const result = await mammoth.convertToHtml({ path: filePath });
+    const { lines, tables } = structureFromHtml(result.value);
+
     return {
-      text,
+      text: lines.join('\n'),
       lines,
+      tables,
       metadata: {
         fileName,
         fileType: 'docx',
@@ -52,10 +126,99 @@ export async function parseWord(filePath: string, fileName: string): Promise<Par
     };
   } catch (error) {
     logger.error('Error parsing Word document:', error);
-    throw new Error(`Failed to parse Word document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new DocumentParseError(fileName, `failed to parse Word document (${describeError(error)})`);
   }
 }
 
+// Decode a text file as UTF-8, falling back to Latin-1 (Excel CSV exports) when it isn't valid UTF-8
+async function readTextFile(filePath: string): Promise<string> {
+  const buffer = await fs.readFile(filePath);
+  const utf8 = buffer.toString('utf8');
+  const text = utf8.includes('\uFFFD') ? buffer.toString('latin1') : utf8;
+  return text.replace(/^\uFEFF/, '');
+}
+
+function toParsedDocument(
+  fileName: string,
+  fileType: string,
+  structured: StructuredText & { pageStarts?: number[] }
+): ParsedDocument {
+  return {
+    text: structured.lines.join('\n'),
+    lines: structured.lines,
+    tables: structured.tables,
+    pageStarts: structured.pageStarts,
+    metadata: {
+      fileName,
+      fileType,
+      pageCount: structured.pageStarts?.length,
+    },
+  };
+}
+
+// Wrap a format-specific parser with the shared error handling
+async function parseWith(
+  label: string,
+  fileName: string,
+  fileType: string,
+  extract: () => Promise<StructuredText & { pageStarts?: number[] }>
+): Promise<ParsedDocument> {
+  try {
+    return toParsedDocument(fileName, fileType, await extract());
+  } catch (error) {
+    logger.error(`Error parsing ${label}:`, error);
+    throw new DocumentParseError(fileName, `failed to parse ${label} (${describeError(error)})`);
+  }
+}
+
+/**
+ * Parse a .doc file. Real Word 97-2003 files are compound files read by the binary
+ * extractor; files merely named .doc are often .docx or RTF saved with the old extension.
+ */
+export async function parseLegacyWord(filePath: string, fileName: string): Promise<ParsedDocument> {
+  const buffer = await fs.readFile(filePath);
+
+  if (buffer.subarray(0, 2).toString('latin1') === 'PK') {
+    logger.log(`[Parser] ${fileName} is a .docx file with a .doc extension`);
+    return parseWord(filePath, fileName);
+  }
+  if (buffer.subarray(0, 5).toString('latin1') === '{\\rtf') {
+    throw new DocumentParseError(fileName, 'the file is RTF saved with a .doc extension; save it as .docx and upload again');
+  }
+  if (!isCompoundFile(buffer)) {
+    throw new DocumentParseError(fileName, 'not a Word 97-2003 document');
+  }
+
+  return parseWith('legacy Word document', fileName, 'doc', async () => parseDocBuffer(buffer));
+}
+
+export async function parseText(filePath: string, fileName: string): Promise<ParsedDocument> {
+  return parseWith('text file', fileName, 'txt', async () => {
+    const lines = (await readTextFile(filePath)).split(/\r?\n/).filter(line => line.trim().length > 0);
+    return { lines, tables: [] };
+  });
+}
+
+export async function parseMarkdown(filePath: string, fileName: string): Promise<ParsedDocument> {
+  return parseWith('Markdown file', fileName, 'md', async () => structureFromMarkdown(await readTextFile(filePath)));
+}
+
+export async function parseHTML(filePath: string, fileName: string): Promise<ParsedDocument> {
+  return parseWith('HTML file', fileName, 'html', async () => structureFromHtml(await readTextFile(filePath)));
+}
+
+export async function parseCSV(filePath: string, fileName: string): Promise<ParsedDocument> {
+  return parseWith('CSV file', fileName, 'csv', async () => structureFromDelimited(await readTextFile(filePath)));
+}
+
+export async function parseSpreadsheet(filePath: string, fileName: string): Promise<ParsedDocument> {
+  return parseWith('spreadsheet', fileName, 'xlsx', async () => parseXlsxBuffer(await fs.readFile(filePath)));
+}
+
+export async function parsePresentation(filePath: string, fileName: string): Promise<ParsedDocument> {
+  return parseWith('presentation', fileName, 'pptx', async () => parsePptxBuffer(await fs.readFile(filePath)));
+}
+
 export async function parseDocument(filePath: string, fileName: string): Promise<ParsedDocument> {
   const extension = fileName.toLowerCase().split('.').pop();
   
@@ -63,10 +226,25 @@ export async function parseDocument(filePath: string, fileName: string): Promise
     case 'pdf':
       return parsePDF(filePath, fileName);
     case 'docx':
-    case 'doc':
       return parseWord(filePath, fileName);
+    case 'doc':
+      return parseLegacyWord(filePath, fileName);
+    case 'txt':
+      return parseText(filePath, fileName);
+    case 'md':
+    case 'markdown':
+      return parseMarkdown(filePath, fileName);
+    case 'html':
+    case 'htm':
+      return parseHTML(filePath, fileName);
+    case 'csv':
+    case 'tsv':
+      return parseCSV(filePath, fileName);
+    case 'xlsx':
+      return parseSpreadsheet(filePath, fileName);
+    case 'pptx':
+      return parsePresentation(filePath, fileName);
     default:
-      throw new Error(`Unsupported file type: ${extension}`);
+      throw new DocumentParseError(fileName, `unsupported file type .${extension}`);
   }
 }
-
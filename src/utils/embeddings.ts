@@ -1,43 +1,37 @@
-import { pinecone } from '../config/pinecone';
+import { getEmbeddingProvider, EmbeddingProvider } from '../providers/embeddings';
 import logger from './logger';
 
+// Guard the dimensionality contract: the vector index only accepts one dimension
+function assertDimensions(provider: EmbeddingProvider, embeddings: number[][]): void {
+  for (const embedding of embeddings) {
+    if (!embedding || embedding.length !== provider.dimension) {
+      throw new Error(
+        `Embedding provider "${provider.name}" returned a vector of ${embedding?.length ?? 0} dimensions, expected ${provider.dimension}`
+      );
+    }
+  }
+}
+
 export async function generateEmbedding(text: string): Promise<number[]> {
+  const provider = getEmbeddingProvider();
   try {
-    const result = await pinecone.inference.embed(
-      'llama-text-embed-v2',
-      [text],
-      { inputType: 'query', truncate: 'END' }
-    );
-    // Cast to any to handle type mismatch with EmbeddingsList, assuming .data structure or array
-    const embeddings = (result as any).data || result;
-    return embeddings[0].values;
+    const embeddings = await provider.embed([text], 'query');
+    assertDimensions(provider, embeddings);
+    return embeddings[0];
   } catch (error) {
-    logger.error('Pinecone embedding error:', error);
+    logger.error(`[Embeddings:${provider.name}] Embedding error:`, error);
     throw error;
   }
 }
 
 export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+  const provider = getEmbeddingProvider();
   try {
-    // Pinecone inference supports batching
-    const BATCH_SIZE = 90;
-    const allEmbeddings: number[][] = [];
-
-    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
-      const batch = texts.slice(i, i + BATCH_SIZE);
-      const result = await pinecone.inference.embed(
-        'llama-text-embed-v2',
-        batch,
-        { inputType: 'passage', truncate: 'END' }
-      );
-
-      const embeddings = (result as any).data || result;
-      allEmbeddings.push(...embeddings.map((e: any) => e.values));
-    }
-
-    return allEmbeddings;
+    const embeddings = await provider.embed(texts, 'passage');
+    assertDimensions(provider, embeddings);
+    return embeddings;
   } catch (error) {
-    logger.error('Pinecone batch embedding error:', error);
+    logger.error(`[Embeddings:${provider.name}] Batch embedding error:`, error);
     throw error;
   }
 }
@@ -1,4 +1,4 @@
-import { chatWithDeepSeek, ChatMessage } from '../config/deepseek';
+import { getLlmProvider, ChatMessage } from '../providers/llm';
 import logger from '../utils/logger';
 
 export interface RefinedQuery {
@@ -61,7 +61,7 @@ export async function refineQueryWithGhostPrompt(query: string): Promise<Refined
     logger.log('[GhostPrompt] Refining query:', query);
     
     // Use low temperature for consistent, focused responses
-    const response = await chatWithDeepSeek(messages, 0.1);
+    const response = await getLlmProvider().chat(messages, { temperature: 0.1 });
     
     // Parse the JSON response
     const jsonMatch = response.match(/\{[\s\S]*\}/);
@@ -123,3 +123,48 @@ export function isQueryLikelyAmbiguous(query: string): boolean {
   
   return ambiguousPatterns.some(pattern => pattern.test(trimmed));
 }
+
+const FOLLOW_UP_REWRITE_SYSTEM = `You rewrite follow-up questions from an Algerie Telecom call-center conversation into standalone questions.
+Use the conversation to resolve pronouns and implicit references (offers, products, prices, contracts).
+Keep the language of the follow-up question. Do not answer the question.
+Respond ONLY with the rewritten question, without quotes or explanations.`;
+
+/**
+ * Rewrite a follow-up question into a standalone question using the previous turns.
+ * Falls back to the original question if the rewrite fails.
+ */
+export async function rewriteFollowUpQuestion(question: string, history: ChatMessage[]): Promise<string> {
+  if (history.length === 0) {
+    return question;
+  }
+
+  try {
+    const transcript = history
+      .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+      .join('\n');
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: FOLLOW_UP_REWRITE_SYSTEM },
+      {
+        role: 'user',
+        content: `Conversation:\n${transcript}\n\nFollow-up question: "${question}"\n\nStandalone question:`
+      }
+    ];
+
+    logger.log('[GhostPrompt] Rewriting follow-up question:', question);
+
+    const response = await getLlmProvider().chat(messages, { temperature: 0.1 });
+    const rewritten = response.trim().replace(/^["'«]+|["'»]+$/g, '').trim();
+
+    if (!rewritten) {
+      return question;
+    }
+
+    logger.log('[GhostPrompt] Standalone question:', rewritten);
+    return rewritten;
+
+  } catch (error) {
+    logger.error('[GhostPrompt] Error rewriting follow-up question:', error);
+    return question;
+  }
+}
@@ -0,0 +1,39 @@
+import { ByteRange } from '../providers/storage/types';
+
+/**
+ * Parsing of HTTP Range request headers (RFC 9110 §14), as sent by PDF viewers
+ * and media players to fetch part of a file.
+ */
+
+/**
+ * Parse a `Range` header against a resource of `size` bytes.
+ * Returns undefined when the whole resource should be sent (no header, a unit
+ * other than bytes, several ranges or a malformed header such as a last position
+ * before the first, which servers ignore), null when the range can't be satisfied
+ * (first position past the end: respond 416), or the range to send.
+ */
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange | null | undefined {
+  if (!header) return undefined;
+
+  // Multiple ranges, another unit or a malformed header: serve the full content
+  const match = header.trim().match(/^bytes=\s*(\d*)\s*-\s*(\d*)\s*$/i);
+  if (!match) return undefined;
+
+  const [, startText, endText] = match;
+  if (!startText && !endText) return undefined;
+
+  // "bytes=-500": the last 500 bytes
+  if (!startText) {
+    const suffixLength = Number(endText);
+    if (suffixLength === 0 || size === 0) return null;
+    return { start: Math.max(0, size - suffixLength), end: size - 1 };
+  }
+
+  const start = Number(startText);
+  // "bytes=5-2" is syntactically invalid and ignored, like any malformed header
+  if (endText && start > Number(endText)) return undefined;
+  if (start >= size) return null;
+  const end = endText ? Math.min(Number(endText), size - 1) : size - 1;
+
+  return { start, end };
+}
@@ -0,0 +1,133 @@
+import { MetadataFilter } from '../providers/vectorStore';
+
+/**
+ * Retrieval filters accepted by /api/chat and /api/search.
+ * Every field is optional; fields are combined with AND, array values with OR.
+ */
+export interface RetrievalFilters {
+  folder?: string[];
+  fileType?: string[];
+  fileName?: string[];
+  storagePath?: string[];
+  uploadedAfter?: number; // epoch ms, inclusive
+  uploadedBefore?: number; // epoch ms, inclusive
+  pineconeOnly?: boolean;
+}
+
+export class InvalidFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidFilterError';
+  }
+}
+
+function parseStringList(name: string, value: unknown): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  const values = Array.isArray(value) ? value : [value];
+  if (!values.every(item => typeof item === 'string' && item.trim().length > 0)) {
+    throw new InvalidFilterError(`filters.${name} must be a non-empty string or an array of strings`);
+  }
+
+  return values.map(item => (item as string).trim());
+}
+
+function parseDate(name: string, value: unknown): number | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  const timestamp = typeof value === 'number' ? value : Date.parse(String(value));
+  if (!Number.isFinite(timestamp)) {
+    throw new InvalidFilterError(`filters.${name} must be an ISO date string or a timestamp in milliseconds`);
+  }
+
+  return timestamp;
+}
+
+/**
+ * Validate the `filters` object of a request body.
+ * Returns undefined when no filter is set.
+ */
+export function parseRetrievalFilters(raw: unknown): RetrievalFilters | undefined {
+  if (raw === undefined || raw === null) return undefined;
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new InvalidFilterError('filters must be an object');
+  }
+
+  const input = raw as Record<string, unknown>;
+
+  if (input.pineconeOnly !== undefined && typeof input.pineconeOnly !== 'boolean') {
+    throw new InvalidFilterError('filters.pineconeOnly must be a boolean');
+  }
+
+  const filters: RetrievalFilters = {
+    folder: parseStringList('folder', input.folder),
+    fileType: parseStringList('fileType', input.fileType)?.map(type => type.replace(/^\./, '').toLowerCase()),
+    fileName: parseStringList('fileName', input.fileName),
+    storagePath: parseStringList('storagePath', input.storagePath),
+    uploadedAfter: parseDate('uploadedAfter', input.uploadedAfter),
+    uploadedBefore: parseDate('uploadedBefore', input.uploadedBefore),
+    pineconeOnly: input.pineconeOnly as boolean | undefined,
+  };
+
+  // Drop unset fields so the filters can be compared and logged as-is
+  for (const key of Object.keys(filters) as Array<keyof RetrievalFilters>) {
+    if (filters[key] === undefined) delete filters[key];
+  }
+
+  return Object.keys(filters).length > 0 ? filters : undefined;
+}
+
+/**
+ * Translate retrieval filters into a vector store metadata filter.
+ * Note: `fileType` and `uploadedAt` are only stored on vectors indexed after
+ * filters were introduced, so older vectors never match those two filters.
+ */
+export function buildMetadataFilter(filters?: RetrievalFilters): MetadataFilter | undefined {
+  if (!filters) return undefined;
+
+  const conditions: MetadataFilter[] = [];
+
+  const addList = (field: string, values?: string[]) => {
+    if (values && values.length > 0) {
+      conditions.push({ [field]: { $in: values } });
+    }
+  };
+
+  addList('folder', filters.folder);
+  addList('fileType', filters.fileType);
+  addList('fileName', filters.fileName);
+  addList('storagePath', filters.storagePath);
+
+  if (filters.uploadedAfter !== undefined) {
+    conditions.push({ uploadedAt: { $gte: filters.uploadedAfter } });
+  }
+  if (filters.uploadedBefore !== undefined) {
+    conditions.push({ uploadedAt: { $lte: filters.uploadedBefore } });
+  }
+
+  if (filters.pineconeOnly === true) {
+    conditions.push({ pineconeOnly: { $eq: 'true' } });
+  } else if (filters.pineconeOnly === false) {
+    conditions.push({ pineconeOnly: { $ne: 'true' } });
+  }
+
+  if (conditions.length === 0) return undefined;
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+}
+
+/**
+ * Stable key identifying a filter combination (used to keep cached retrievals apart).
+ */
+export function getFilterKey(filters?: RetrievalFilters): string {
+  if (!filters) return '';
+
+  const sorted = Object.keys(filters)
+    .sort()
+    .map(key => {
+      const value = filters[key as keyof RetrievalFilters];
+      return [key, Array.isArray(value) ? [...value].sort() : value];
+    });
+
+  return JSON.stringify(sorted);
+}
@@ -0,0 +1,212 @@
+import JSZip from 'jszip';
+import { ParsedTable, fromCellRows } from './tableExtractor';
+
+/**
+ * Text extraction for Office Open XML spreadsheets (.xlsx) and presentations (.pptx).
+ * Both are zip archives of XML parts; only the parts holding text are read.
+ */
+
+export interface OfficeText {
+  lines: string[];
+  tables: ParsedTable[];
+  // Presentations only: index in `lines` of the first line of each slide
+  pageStarts?: number[];
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+// Concatenated text of every <tag>...</tag> run inside a fragment
+function collectText(xml: string, tag: string): string {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => decodeXml(match[1])).join('');
+}
+
+async function readPart(zip: JSZip, partPath: string): Promise<string | undefined> {
+  return zip.file(partPath)?.async('string');
+}
+
+// Resolve relationship ids of a part (e.g. workbook sheets) to archive paths
+async function readRelationships(zip: JSZip, relsPath: string, baseDir: string): Promise<Map<string, string>> {
+  const rels = new Map<string, string>();
+  const xml = await readPart(zip, relsPath);
+  if (!xml) return rels;
+
+  for (const match of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = match[0].match(/\bId="([^"]+)"/)?.[1];
+    const target = match[0].match(/\bTarget="([^"]+)"/)?.[1];
+    if (!id || !target) continue;
+    rels.set(id, target.startsWith('/') ? target.slice(1) : `${baseDir}/${target}`);
+  }
+  return rels;
+}
+
+// ========== XLSX ==========
+
+// "AB12" → 27 (0-based column index)
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/\d+$/, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function parseSheetRows(xml: string, sharedStrings: string[]): string[][] {
+  const rows: string[][] = [];
+
+  for (const rowMatch of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const cells: string[] = [];
+
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] || '';
+      const ref = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's' && rawValue !== undefined) value = sharedStrings[Number(rawValue)] || '';
+      else if (type === 'inlineStr') value = collectText(body, 't');
+      else if (type === 'b') value = rawValue === '1' ? 'TRUE' : 'FALSE';
+      else if (rawValue !== undefined) value = decodeXml(rawValue);
+
+      const index = ref ? columnIndex(ref) : cells.length;
+      cells[index] = value.trim();
+    }
+
+    // Sparse rows leave holes for the skipped columns
+    const row = Array.from(cells, cell => cell || '');
+    if (row.some(cell => cell)) rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Extract every worksheet of a workbook. Each sheet becomes a "# Sheet name" heading
+ * followed by its rows, read as a table whose first non-empty row holds the headers.
+ * Cell values are the stored values (formulas give their cached result; dates stay serial numbers).
+ */
+export async function parseXlsxBuffer(buffer: Buffer): Promise<OfficeText> {
+  const zip = await JSZip.loadAsync(buffer);
+
+  const sharedStringsXml = await readPart(zip, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g), match => collectText(match[1], 't'))
+    : [];
+
+  const workbook = await readPart(zip, 'xl/workbook.xml');
+  if (!workbook) throw new Error('Not a valid XLSX workbook (xl/workbook.xml missing)');
+  const sheetPaths = await readRelationships(zip, 'xl/_rels/workbook.xml.rels', 'xl');
+
+  const lines: string[] = [];
+  const tables: ParsedTable[] = [];
+
+  for (const sheetMatch of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+    const name = decodeXml(sheetMatch[0].match(/\bname="([^"]*)"/)?.[1] || 'Sheet');
+    const relationId = sheetMatch[0].match(/\br:id="([^"]+)"/)?.[1];
+    const sheetPath = relationId ? sheetPaths.get(relationId) : undefined;
+    const sheetXml = sheetPath ? await readPart(zip, sheetPath) : undefined;
+    if (!sheetXml) continue;
+
+    const rows = parseSheetRows(sheetXml, sharedStrings);
+    if (rows.length === 0) continue;
+
+    lines.push(`# ${name}`);
+    const sheet = fromCellRows(rows, lines.length + 1);
+    lines.push(...sheet.lines);
+    tables.push(...sheet.tables);
+  }
+
+  return { lines, tables };
+}
+
+// ========== PPTX ==========
+
+function parseSlide(xml: string): { title?: string; lines: string[]; tables: string[][][] } {
+  const lines: string[] = [];
+  const tables: string[][][] = [];
+  let title: string | undefined;
+
+  // Shapes (text boxes, placeholders) and graphic frames (tables) in document order
+  for (const shape of xml.matchAll(/<p:sp>([\s\S]*?)<\/p:sp>|<p:graphicFrame>([\s\S]*?)<\/p:graphicFrame>/g)) {
+    if (shape[2] !== undefined) {
+      const rows = Array.from(shape[2].matchAll(/<a:tr\b[^>]*>([\s\S]*?)<\/a:tr>/g), row =>
+        Array.from(row[1].matchAll(/<a:tc\b[^>]*>([\s\S]*?)<\/a:tc>/g), cell =>
+          Array.from(cell[1].matchAll(/<a:p>([\s\S]*?)<\/a:p>/g), p => collectText(p[1], 'a:t')).join(' ').trim()
+        )
+      ).filter(row => row.some(cell => cell));
+      if (rows.length > 0) tables.push(rows);
+      continue;
+    }
+
+    const body = shape[1];
+    const paragraphs = Array.from(body.matchAll(/<a:p>([\s\S]*?)<\/a:p>/g), p => collectText(p[1], 'a:t').trim())
+      .filter(Boolean);
+    if (paragraphs.length === 0) continue;
+
+    if (!title && /<p:ph\b[^>]*type="(?:title|ctrTitle)"/.test(body)) {
+      title = paragraphs.join(' ');
+      continue;
+    }
+    // Bulleted placeholders and text boxes both keep one line per paragraph
+    lines.push(...paragraphs);
+  }
+
+  return { title, lines, tables };
+}
+
+// Slides in presentation order (the slide list of presentation.xml), falling back to file numbering
+async function getSlidePaths(zip: JSZip): Promise<string[]> {
+  const presentation = await readPart(zip, 'ppt/presentation.xml');
+  const rels = await readRelationships(zip, 'ppt/_rels/presentation.xml.rels', 'ppt');
+  const ordered = Array.from((presentation || '').matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g), match => rels.get(match[1]))
+    .filter((slidePath): slidePath is string => !!slidePath && !!zip.file(slidePath));
+  if (ordered.length > 0) return ordered;
+
+  const slideNumber = (name: string) => parseInt(name.match(/(\d+)\.xml$/)![1], 10);
+  return Object.keys(zip.files)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+/**
+ * Extract the slides of a presentation in order. Each slide becomes a
+ * "# Slide N: title" heading followed by its text and tables; slides are
+ * reported as pages so chunks carry the slide number.
+ */
+export async function parsePptxBuffer(buffer: Buffer): Promise<OfficeText> {
+  const zip = await JSZip.loadAsync(buffer);
+
+  const slidePaths = await getSlidePaths(zip);
+  if (slidePaths.length === 0) throw new Error('Not a valid PPTX presentation (no slides found)');
+
+  const lines: string[] = [];
+  const tables: ParsedTable[] = [];
+  const pageStarts: number[] = [];
+
+  for (const [index, slidePath] of slidePaths.entries()) {
+    const slide = parseSlide((await readPart(zip, slidePath)) || '');
+    pageStarts.push(lines.length);
+
+    lines.push(`# Slide ${index + 1}${slide.title ? `: ${slide.title}` : ''}`);
+    lines.push(...slide.lines);
+    for (const rows of slide.tables) {
+      const table = fromCellRows(rows, lines.length + 1);
+      lines.push(...table.lines);
+      tables.push(...table.tables);
+    }
+  }
+
+  return { lines, tables, pageStarts };
+}
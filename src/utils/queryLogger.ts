@@ -17,6 +17,7 @@ export interface QueryLog {
   queryId: string;
   originalQuery: string;
   refinedQuery?: string;
+  filters?: Record<string, any>;
   startTime: number;
   endTime?: number;
   totalDuration?: number;
@@ -128,6 +129,15 @@ export function setRefinedQuery(log: QueryLog, refinedQuery: string): void {
   log.refinedQuery = refinedQuery;
 }
 
+/**
+ * Set metadata filters applied to retrieval.
+ */
+export function setFilters(log: QueryLog, filters?: Record<string, any>): void {
+  if (!filters) return;
+  log.filters = filters;
+  logger.log(`[${log.queryId}] Filters: ${JSON.stringify(filters)}`);
+}
+
 /**
  * Get recent query logs.
  */
@@ -0,0 +1,36 @@
+export interface FusedResult<T> {
+  id: string;
+  fusedScore: number;
+  // Rank (1-based) of the item in each input list, undefined when absent from that list
+  ranks: Array<number | undefined>;
+  item: T;
+}
+
+/**
+ * Merge ranked lists with Reciprocal Rank Fusion: score = Σ 1 / (k + rank).
+ * Only ranks are used, so lists with incomparable scores (cosine vs BM25) can be fused.
+ * When an id appears in several lists, the item from the first list containing it is kept.
+ */
+export function reciprocalRankFusion<T extends { id: string }>(
+  lists: T[][],
+  k: number = 60
+): FusedResult<T>[] {
+  const fused = new Map<string, FusedResult<T>>();
+
+  lists.forEach((list, listIndex) => {
+    list.forEach((item, position) => {
+      const rank = position + 1;
+      let entry = fused.get(item.id);
+
+      if (!entry) {
+        entry = { id: item.id, fusedScore: 0, ranks: new Array(lists.length).fill(undefined), item };
+        fused.set(item.id, entry);
+      }
+
+      entry.fusedScore += 1 / (k + rank);
+      entry.ranks[listIndex] = rank;
+    });
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.fusedScore - a.fusedScore);
+}
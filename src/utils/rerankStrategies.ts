@@ -0,0 +1,189 @@
+import { getLlmProvider, ChatMessage } from '../providers/llm';
+import { tokenize } from './bm25';
+import logger from './logger';
+
+export type RerankerName = 'hybrid' | 'llm-judge' | 'cross-encoder';
+
+export const RERANKER_NAMES: RerankerName[] = ['hybrid', 'llm-judge', 'cross-encoder'];
+
+export interface RerankCandidate {
+  id: string;
+  text: string;
+  hybridScore: number;
+}
+
+/**
+ * Second-stage scorer applied after the hybrid (semantic + keyword) first stage.
+ * Returns one relevance score in [0, 1] per candidate, in input order.
+ */
+export interface RerankerStrategy {
+  readonly name: RerankerName;
+  score(query: string, candidates: RerankCandidate[]): Promise<number[]>;
+}
+
+/**
+ * Keeps the first-stage blend of semantic and keyword scores.
+ */
+export class HybridReranker implements RerankerStrategy {
+  readonly name = 'hybrid' as const;
+
+  async score(_query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    return candidates.map(candidate => candidate.hybridScore);
+  }
+}
+
+const LLM_JUDGE_SYSTEM = `You are a relevance judge for Algerie Telecom's document retrieval system.
+For each numbered passage, rate how well it helps answer the query, from 0 (irrelevant) to 10 (directly answers it).
+Respond ONLY with a JSON array of objects: [{"index": 0, "score": 7}, ...], one per passage.`;
+
+const LLM_JUDGE_BATCH_SIZE = 10;
+const LLM_JUDGE_PASSAGE_CHARS = 800;
+
+/**
+ * Uses the configured LLM as a relevance judge. Candidates are sent in batches
+ * (in parallel); a batch that fails or can't be parsed keeps its hybrid scores.
+ */
+export class LlmJudgeReranker implements RerankerStrategy {
+  readonly name = 'llm-judge' as const;
+
+  async score(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const batches: RerankCandidate[][] = [];
+    for (let i = 0; i < candidates.length; i += LLM_JUDGE_BATCH_SIZE) {
+      batches.push(candidates.slice(i, i + LLM_JUDGE_BATCH_SIZE));
+    }
+
+    const batchScores = await Promise.all(batches.map(batch => this.scoreBatch(query, batch)));
+    return batchScores.flat();
+  }
+
+  private async scoreBatch(query: string, batch: RerankCandidate[]): Promise<number[]> {
+    const fallback = batch.map(candidate => candidate.hybridScore);
+
+    try {
+      const passages = batch
+        .map((candidate, index) => `[${index}] ${candidate.text.substring(0, LLM_JUDGE_PASSAGE_CHARS)}`)
+        .join('\n\n');
+
+      const messages: ChatMessage[] = [
+        { role: 'system', content: LLM_JUDGE_SYSTEM },
+        { role: 'user', content: `Query: "${query}"\n\nPassages:\n${passages}` }
+      ];
+
+      const response = await getLlmProvider().chat(messages, { temperature: 0 });
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      if (!jsonMatch) {
+        logger.warn('[Reranker:llm-judge] Failed to parse judge response, keeping hybrid scores');
+        return fallback;
+      }
+
+      const judgements = JSON.parse(jsonMatch[0]) as Array<{ index: number; score: number }>;
+      const scores = [...fallback];
+      for (const judgement of judgements) {
+        if (Number.isInteger(judgement.index) && judgement.index >= 0 && judgement.index < batch.length) {
+          scores[judgement.index] = Math.max(0, Math.min(Number(judgement.score) / 10, 1)) || 0;
+        }
+      }
+      return scores;
+    } catch (error) {
+      logger.error('[Reranker:llm-judge] Batch scoring failed, keeping hybrid scores:', error);
+      return fallback;
+    }
+  }
+}
+
+/**
+ * Lightweight local scorer that, like a cross-encoder, looks at the query and the
+ * passage together: query term coverage, exact phrase (bigram) matches, proximity
+ * of the matched terms and exact number matches (prices, speeds, offer names).
+ */
+export class CrossEncoderReranker implements RerankerStrategy {
+  readonly name = 'cross-encoder' as const;
+
+  async score(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) {
+      return candidates.map(candidate => candidate.hybridScore);
+    }
+
+    const queryBigrams = new Set<string>();
+    for (let i = 1; i < queryTerms.length; i++) {
+      queryBigrams.add(`${queryTerms[i - 1]} ${queryTerms[i]}`);
+    }
+    const queryNumbers = queryTerms.filter(term => /\d/.test(term));
+
+    return candidates.map(candidate => {
+      const passageTerms = tokenize(candidate.text);
+      const positions = new Map<string, number[]>();
+      passageTerms.forEach((term, position) => {
+        for (const queryTerm of queryTerms) {
+          if (termsMatch(queryTerm, term)) {
+            positions.set(queryTerm, [...(positions.get(queryTerm) || []), position]);
+          }
+        }
+      });
+
+      const coverage = positions.size / queryTerms.length;
+
+      let bigramMatches = 0;
+      for (let i = 1; i < passageTerms.length; i++) {
+        if (queryBigrams.has(`${passageTerms[i - 1]} ${passageTerms[i]}`)) bigramMatches++;
+      }
+      const phrase = queryBigrams.size > 0 ? Math.min(bigramMatches / queryBigrams.size, 1) : coverage;
+
+      const proximity = positions.size > 1
+        ? positions.size / smallestWindow(Array.from(positions.values()))
+        : coverage;
+
+      const numbers = queryNumbers.length > 0
+        ? queryNumbers.filter(number => positions.has(number)).length / queryNumbers.length
+        : coverage;
+
+      return 0.4 * coverage + 0.25 * phrase + 0.2 * proximity + 0.15 * numbers;
+    });
+  }
+}
+
+// Exact match, or a shared 5-character prefix as a cheap stand-in for stemming (tarif/tarifs)
+function termsMatch(queryTerm: string, passageTerm: string): boolean {
+  if (queryTerm === passageTerm) return true;
+  if (/\d/.test(queryTerm)) return false;
+  return queryTerm.length >= 5 && passageTerm.length >= 5 && queryTerm.slice(0, 5) === passageTerm.slice(0, 5);
+}
+
+// Size of the smallest span of positions containing at least one occurrence of every term
+function smallestWindow(termPositions: number[][]): number {
+  const events = termPositions
+    .flatMap((positions, term) => positions.map(position => ({ position, term })))
+    .sort((a, b) => a.position - b.position);
+
+  const counts = new Array(termPositions.length).fill(0);
+  let covered = 0;
+  let best = Infinity;
+  let left = 0;
+
+  for (let right = 0; right < events.length; right++) {
+    if (counts[events[right].term]++ === 0) covered++;
+
+    while (covered === termPositions.length) {
+      best = Math.min(best, events[right].position - events[left].position + 1);
+      if (--counts[events[left].term] === 0) covered--;
+      left++;
+    }
+  }
+
+  return best === Infinity ? termPositions.length : best;
+}
+
+const strategies: Record<RerankerName, RerankerStrategy> = {
+  'hybrid': new HybridReranker(),
+  'llm-judge': new LlmJudgeReranker(),
+  'cross-encoder': new CrossEncoderReranker(),
+};
+
+export function getRerankerStrategy(name: RerankerName): RerankerStrategy {
+  return strategies[name];
+}
+
+export function isRerankerName(value: unknown): value is RerankerName {
+  return typeof value === 'string' && (RERANKER_NAMES as string[]).includes(value);
+}
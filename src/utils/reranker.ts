@@ -1,9 +1,12 @@
 import { calculateKeywordScore, calculateHybridScore } from './keywordSearch';
+import { getRerankerStrategy, RerankerName } from './rerankStrategies';
 import logger from './logger';
 
 export interface RetrievedDocument {
   id: string;
-  score: number; // Semantic similarity score from vector DB
+  score: number; // Retrieval score: vector similarity, or normalized fusion score in hybrid retrieval
+  vectorScore?: number; // Similarity from the vector DB (hybrid retrieval only)
+  bm25Score?: number; // Score from the keyword index (hybrid retrieval only)
   metadata: {
     fileName: string;
     lineNumber: string;
@@ -17,6 +20,8 @@ export interface RankedDocument extends RetrievedDocument {
   semanticScore: number;
   keywordScore: number;
   hybridScore: number;
+  reranker: RerankerName;
+  rerankerScore?: number; // Second-stage score in [0, 1] (not set for the hybrid strategy)
   finalScore: number;
 }
 
@@ -25,27 +30,32 @@ export interface RerankerConfig {
   keywordWeight: number;
   initialRetrievalCount: number;
   finalResultCount: number;
+  strategy: RerankerName;
+  secondStageWeight: number; // Weight of the second-stage score vs the hybrid score
 }
 
 const DEFAULT_CONFIG: RerankerConfig = {
   semanticWeight: 0.6,
   keywordWeight: 0.4,
   initialRetrievalCount: 20,
-  finalResultCount: 10
+  finalResultCount: 10,
+  strategy: 'hybrid',
+  secondStageWeight: 0.7
 };
 
 /**
- * Rerank documents based on hybrid scoring (semantic + keyword relevance).
+ * Rerank documents based on hybrid scoring (semantic + keyword relevance),
+ * optionally followed by a second-stage strategy (LLM judge or local cross-encoder).
  * Takes initial retrievals and returns top results after reranking.
  */
-export function rerankDocuments(
+export async function rerankDocuments(
   query: string,
   documents: RetrievedDocument[],
   config: Partial<RerankerConfig> = {}
-): RankedDocument[] {
+): Promise<RankedDocument[]> {
   const finalConfig = { ...DEFAULT_CONFIG, ...config };
   
-  logger.log(`[Reranker] Reranking ${documents.length} documents for query: "${query}"`);
+  logger.log(`[Reranker] Reranking ${documents.length} documents with "${finalConfig.strategy}" for query: "${query}"`);
   
   // Score each document
   const rankedDocs: RankedDocument[] = documents.map((doc, index) => {
@@ -66,9 +76,25 @@ export function rerankDocuments(
       semanticScore,
       keywordScore,
       hybridScore,
+      reranker: finalConfig.strategy,
       finalScore: hybridScore
     };
   });
+
+  // Second stage: rescore every candidate with the selected strategy
+  if (finalConfig.strategy !== 'hybrid' && rankedDocs.length > 0) {
+    const strategy = getRerankerStrategy(finalConfig.strategy);
+    const scores = await strategy.score(query, rankedDocs.map(doc => ({
+      id: doc.id,
+      text: doc.metadata.text || '',
+      hybridScore: doc.hybridScore
+    })));
+
+    rankedDocs.forEach((doc, i) => {
+      doc.rerankerScore = scores[i];
+      doc.finalScore = finalConfig.secondStageWeight * scores[i] + (1 - finalConfig.secondStageWeight) * doc.hybridScore;
+    });
+  }
   
   // Sort by final score (descending)
   rankedDocs.sort((a, b) => b.finalScore - a.finalScore);
@@ -78,7 +104,8 @@ export function rerankDocuments(
   
   logger.log(`[Reranker] Top ${topResults.length} results after reranking:`);
   topResults.forEach((doc, i) => {
-    logger.log(`  ${i + 1}. [orig: #${doc.originalRank}] semantic=${doc.semanticScore.toFixed(3)}, keyword=${doc.keywordScore.toFixed(3)}, final=${doc.finalScore.toFixed(3)}`);
+    const rerankerScore = doc.rerankerScore !== undefined ? `, ${doc.reranker}=${doc.rerankerScore.toFixed(3)}` : '';
+    logger.log(`  ${i + 1}. [orig: #${doc.originalRank}] semantic=${doc.semanticScore.toFixed(3)}, keyword=${doc.keywordScore.toFixed(3)}${rerankerScore}, final=${doc.finalScore.toFixed(3)}`);
   });
   
   return topResults;
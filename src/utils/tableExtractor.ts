@@ -0,0 +1,338 @@
+/**
+ * Table extraction for the document parsers.
+ * DOCX and HTML tables come from the markup, markdown pipe tables and CSV files are
+ * parsed as text, and PDF tables are detected from the position of the text items on
+ * each page. Table rows are kept in the document lines as "cell | cell | cell" so line
+ * numbers stay meaningful, and are also returned as structured rows for the chunker.
+ */
+
+export interface ParsedTable {
+  lineNumber: number; // 1-based line of the header row in the document lines
+  headers: string[];
+  rows: string[][];
+}
+
+export interface StructuredText {
+  lines: string[];
+  tables: ParsedTable[];
+}
+
+const CELL_SEPARATOR = ' | ';
+const MIN_TABLE_LINES = 3; // header + at least two rows; two-line runs are usually label/value pairs
+
+/**
+ * Render a table row with its column headers, e.g. "Débit: 20 Mbps | Prix: 1600 DA".
+ */
+export function formatTableRow(table: ParsedTable, row: string[]): string {
+  return table.headers
+    .map((header, index) => ({ header, value: row[index] || '' }))
+    .filter(cell => cell.value)
+    .map(cell => `${cell.header}: ${cell.value}`)
+    .join(CELL_SEPARATOR);
+}
+
+/**
+ * Map a row to its column headers, for storing alongside the chunk.
+ */
+export function tableRowToRecord(table: ParsedTable, row: string[]): Record<string, string> {
+  const record: Record<string, string> = {};
+  table.headers.forEach((header, index) => {
+    if (row[index]) record[header] = row[index];
+  });
+  return record;
+}
+
+// Empty or repeated headers would lose cells in formatTableRow
+function normalizeHeaders(cells: string[], columnCount: number): string[] {
+  const seen = new Set<string>();
+  return Array.from({ length: columnCount }, (_, index) => {
+    let header = cells[index]?.trim() || `Column ${index + 1}`;
+    if (seen.has(header)) header = `${header} (${index + 1})`;
+    seen.add(header);
+    return header;
+  });
+}
+
+function buildTable(lineNumber: number, cellRows: string[][]): ParsedTable {
+  const columnCount = Math.max(...cellRows.map(cells => cells.length));
+  return {
+    lineNumber,
+    headers: normalizeHeaders(cellRows[0], columnCount),
+    rows: cellRows.slice(1)
+  };
+}
+
+// ========== HTML (DOCX via mammoth, web pages) ==========
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<\/p>/gi, ' ').replace(/<[^>]+>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseHtmlTable(html: string): string[][] {
+  const rows: string[][] = [];
+  for (const row of html.match(/<tr[^>]*>[\s\S]*?<\/tr>/gi) || []) {
+    const cells = (row.match(/<t[dh][^>]*>[\s\S]*?<\/t[dh]>/gi) || []).map(htmlToText);
+    if (cells.some(cell => cell)) rows.push(cells);
+  }
+  return rows;
+}
+
+const BLOCK_TAGS = 'p|div|br|tr|ul|ol|section|article|header|footer|nav|aside|main|blockquote|pre|dl|dt|dd|figure|figcaption|form|hr|address';
+
+/**
+ * Convert HTML (mammoth's DOCX output or an exported web page) into document lines.
+ * Headings become markdown headings ("## Tarifs") so the chunker can build heading
+ * paths, list items become "- item", block elements end a line, and tables are
+ * extracted row by row.
+ */
+export function structureFromHtml(html: string): StructuredText {
+  const extracted: string[][][] = [];
+
+  const marked = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|script|style|noscript|template|svg)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    // Tables are swapped for a marker line and restored below
+    .replace(/<table[^>]*>[\s\S]*?<\/table>/gi, table => {
+      extracted.push(parseHtmlTable(table));
+      return `\n\u0000${extracted.length - 1}\u0000\n`;
+    })
+    .replace(/<h([1-6])[^>]*>/gi, (_, level) => `\n${'#'.repeat(Number(level))} `)
+    .replace(/<\/h[1-6]>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(new RegExp(`</?(?:${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n')
+    .replace(/<[^>]+>/g, '');
+
+  const lines: string[] = [];
+  const tables: ParsedTable[] = [];
+
+  for (const rawLine of decodeEntities(marked).split('\n')) {
+    const tableMarker = rawLine.match(/^\s*\u0000(\d+)\u0000\s*$/);
+    if (tableMarker) {
+      const cellRows = extracted[Number(tableMarker[1])];
+      if (cellRows.length >= 2) {
+        tables.push(buildTable(lines.length + 1, cellRows));
+      }
+      lines.push(...cellRows.map(cells => cells.join(CELL_SEPARATOR)));
+      continue;
+    }
+
+    const line = rawLine.replace(/\s+/g, ' ').trim();
+    // Skip empty lines and headings or list markers left without text
+    if (line && !/^(#+|-)$/.test(line)) lines.push(line);
+  }
+
+  return { lines, tables };
+}
+
+// ========== Markdown and delimited text ==========
+
+const MARKDOWN_TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+function splitMarkdownRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+/**
+ * Split markdown into lines, extracting pipe tables (header row followed by a
+ * "|---|---|" separator). The separator line is dropped.
+ */
+export function structureFromMarkdown(text: string): StructuredText {
+  const rawLines = text.split(/\r?\n/);
+  const lines: string[] = [];
+  const tables: ParsedTable[] = [];
+
+  for (let index = 0; index < rawLines.length; index++) {
+    const line = rawLines[index].trim();
+    if (!line) continue;
+
+    if (line.includes('|') && MARKDOWN_TABLE_SEPARATOR.test(rawLines[index + 1]?.trim() || '')) {
+      const cellRows = [splitMarkdownRow(line)];
+      index += 2;
+      while (index < rawLines.length && rawLines[index].includes('|') && rawLines[index].trim()) {
+        cellRows.push(splitMarkdownRow(rawLines[index]));
+        index++;
+      }
+      index--;
+
+      if (cellRows.length >= 2) tables.push(buildTable(lines.length + 1, cellRows));
+      lines.push(...cellRows.map(cells => cells.join(CELL_SEPARATOR)));
+      continue;
+    }
+
+    lines.push(line);
+  }
+
+  return { lines, tables };
+}
+
+// Pick the delimiter that splits the first line into the most cells
+function detectDelimiter(firstLine: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+function parseDelimitedRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && !cell) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value));
+}
+
+/**
+ * Parse CSV/TSV text (comma, semicolon or tab separated, RFC 4180 quoting) as one
+ * table whose first row holds the column headers.
+ */
+export function structureFromDelimited(text: string): StructuredText {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const cellRows = parseDelimitedRows(text, detectDelimiter(firstLine));
+  return fromCellRows(cellRows);
+}
+
+/**
+ * Lines and table for a grid of cells whose first row holds the column headers.
+ */
+export function fromCellRows(rawRows: string[][], firstLineNumber: number = 1): StructuredText {
+  // Quoted cells may span several lines; each row must stay on one
+  const cellRows = rawRows.map(cells => cells.map(cell => cell.replace(/\s+/g, ' ').trim()));
+  const lines = cellRows.map(cells => cells.join(CELL_SEPARATOR));
+  const tables = cellRows.length >= 2 ? [buildTable(firstLineNumber, cellRows)] : [];
+  return { lines, tables };
+}
+
+// ========== PDF (text item layout) ==========
+
+// Subset of pdf.js TextItem used for layout
+export interface PdfTextItem {
+  str: string;
+  width: number;
+  transform: number[]; // [scaleX, skewY, skewX, scaleY, x, y]
+}
+
+interface LayoutLine {
+  cells: string[];
+}
+
+// Split one visual line into cells wherever the horizontal gap is wider than about one character height
+function splitCells(items: PdfTextItem[]): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let lastEnd: number | undefined;
+
+  for (const item of items) {
+    const x = item.transform[4];
+    const fontHeight = Math.abs(item.transform[3]) || Math.abs(item.transform[0]) || 10;
+
+    if (lastEnd !== undefined && x - lastEnd > fontHeight && current.trim()) {
+      cells.push(current.trim());
+      current = '';
+    }
+    current += item.str;
+    lastEnd = x + item.width;
+  }
+
+  if (current.trim()) cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Lay out the text items of a PDF page into lines, detecting tables as runs of at
+ * least three consecutive lines split into the same number (2+) of cells.
+ * Line numbers of the returned tables are relative to the page.
+ */
+export function structureFromPdfItems(items: PdfTextItem[]): StructuredText {
+  // Items on one baseline form a line, as in pdf-parse's default renderer
+  const layoutLines: LayoutLine[] = [];
+  let lineItems: PdfTextItem[] = [];
+  let lastY: number | undefined;
+
+  const flushLine = () => {
+    const cells = splitCells([...lineItems].sort((a, b) => a.transform[4] - b.transform[4]));
+    if (cells.length > 0) layoutLines.push({ cells });
+    lineItems = [];
+  };
+
+  for (const item of items) {
+    if (lastY !== undefined && item.transform[5] !== lastY) flushLine();
+    lineItems.push(item);
+    lastY = item.transform[5];
+  }
+  flushLine();
+
+  const lines: string[] = [];
+  const tables: ParsedTable[] = [];
+  let index = 0;
+
+  while (index < layoutLines.length) {
+    const columnCount = layoutLines[index].cells.length;
+    let end = index;
+    while (columnCount >= 2 && end + 1 < layoutLines.length && layoutLines[end + 1].cells.length === columnCount) {
+      end++;
+    }
+
+    if (columnCount >= 2 && end - index + 1 >= MIN_TABLE_LINES) {
+      const cellRows = layoutLines.slice(index, end + 1).map(line => line.cells);
+      tables.push(buildTable(lines.length + 1, cellRows));
+      lines.push(...cellRows.map(cells => cells.join(CELL_SEPARATOR)));
+    } else {
+      // Not a table: restore the plain line text
+      for (const line of layoutLines.slice(index, end + 1)) {
+        lines.push(line.cells.join(' '));
+      }
+    }
+
+    index = end + 1;
+  }
+
+  return { lines, tables };
+}
@@ -1,56 +1,369 @@
+import { ParsedDocument, locateLine } from './documentParser';
+import { ParsedTable, formatTableRow, tableRowToRecord } from './tableExtractor';
+
 export interface TextChunk {
   text: string;
   fileName: string;
   lineNumber: number;
   chunkIndex: number;
+  // Headings enclosing the chunk, outermost first, e.g. "Offres > Idoom Fibre > Tarifs"
+  headingPath: string;
+  // PDFs only: page of the chunk's first line (1-based) and that line's position within the page
+  page?: number;
+  lineInPage?: number;
+  // 'table-row' chunks hold one row of an extracted table, with its column headers
+  chunkType: 'text' | 'table-row';
+  tableRow?: Record<string, string>;
 }
 
-export function chunkText(
-  lines: string[],
-  fileName: string,
-  chunkSize: number = 500,
-  overlap: number = 50
-): TextChunk[] {
-  const chunks: TextChunk[] = [];
-  let currentChunk: string[] = [];
-  let currentLength = 0;
-  let chunkIndex = 0;
-  let lineNumber = 1;
-
-  for (const line of lines) {
-    const lineLength = line.length;
-    
-    if (currentLength + lineLength > chunkSize && currentChunk.length > 0) {
-      // Save current chunk
-      chunks.push({
-        text: currentChunk.join('\n'),
-        fileName,
-        lineNumber: lineNumber - currentChunk.length,
-        chunkIndex: chunkIndex++,
-      });
+export interface ChunkerOptions {
+  chunkSize: number; // target maximum characters per chunk
+  overlap: number; // characters of trailing context repeated at the start of the next chunk
+}
+
+export const DEFAULT_CHUNKER_OPTIONS: ChunkerOptions = {
+  chunkSize: 500,
+  overlap: 50
+};
+
+const HEADING_PATH_SEPARATOR = ' > ';
+const MAX_HEADING_LENGTH = 80;
+
+type BlockKind = 'heading' | 'list' | 'table' | 'tableRecord' | 'text';
+
+// One structural unit of the document: a heading, a list item, a table row or a sentence.
+// 'table' is a row of a pipe/tab-separated table found in the text; 'tableRecord' a row of
+// a table extracted by the parser, which becomes a chunk of its own.
+interface Unit {
+  kind: BlockKind;
+  text: string;
+  lineNumber: number;
+  level?: number; // headings only
+  tableStart?: number; // table rows only: line number of the table's first row
+  record?: Record<string, string>; // tableRecord only
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+)$/;
+// A section number needs a marker: "2." / "2)" or dotted "2.1", so "300 Mbps" stays text
+const NUMBERED_HEADING = /^(\d+(?:\.\d+)+\.?|\d+[.)])\s+(\S.*)$/;
+// Units and currencies after a number ("1.5 Go", "2.5 DA") are values, not section titles
+const UNIT_OR_CURRENCY = /^(?:DA|DZD|EUR|USD|Hz|[KMGT](?:o|B|b|bps|b\/s|bits?\/s|Hz))(?=$|[\s/.,;:)])/u;
+const LIST_ITEM = /^(?:[-*•▪◦●–]|\d+[.)]|[a-zA-Z][.)])\s+\S/;
+const NUMBERED_ITEM = /^\d+[.)]\s+\S/;
+const SENTENCE_END = /[.!?;:](?:["»)\]]+)?$/;
+
+function isTableRow(line: string): boolean {
+  if ((line.match(/\|/g) || []).length >= 2) return true;
+  if (line.split('\t').filter(cell => cell.trim()).length >= 2) return true;
+  return (line.trim().match(/\S\s{2,}(?=\S)/g) || []).length >= 2;
+}
+
+function isUpperCaseTitle(line: string): boolean {
+  const letters = line.replace(/[^\p{L}]/gu, '');
+  return letters.length >= 3 && letters === letters.toUpperCase() && letters !== letters.toLowerCase();
+}
 
-      // Start new chunk with overlap
-      const overlapLines = currentChunk.slice(-Math.ceil(overlap / 50));
-      currentChunk = [...overlapLines, line];
-      currentLength = overlapLines.join('\n').length + lineLength;
+/**
+ * Detect a heading line and its level.
+ * Recognizes markdown headings, numbered sections ("2.1 Tarifs") and short upper-case titles.
+ * A single-level number ("2. Tarifs") is only a section when a body follows it (`next`, the
+ * next non-empty line), not another numbered item. Returns undefined for any other line.
+ */
+function detectHeading(line: string, previous?: Unit, next?: string): number | undefined {
+  const markdown = line.match(MARKDOWN_HEADING);
+  if (markdown) return markdown[1].length;
+
+  if (line.length > MAX_HEADING_LENGTH) return undefined;
+
+  const numbered = line.match(NUMBERED_HEADING);
+  if (numbered) {
+    const depth = numbered[1].split('.').filter(Boolean).length;
+    const title = numbered[2];
+    // "1. Le client doit fournir ..." is a list item, not a section title
+    if (SENTENCE_END.test(title) || !/^\p{Lu}/u.test(title)) return undefined;
+    if (UNIT_OR_CURRENCY.test(title)) return undefined;
+    // "2. ..." right after "1. ..." continues a numbered list
+    if (depth === 1 && previous?.kind === 'list') {
+      const previousNumber = parseInt(previous.text, 10);
+      if (previousNumber + 1 === parseInt(numbered[1], 10)) return undefined;
+    }
+    // "1. Présenter une pièce d'identité" followed by "2. ..." starts a numbered list
+    if (depth === 1 && (next === undefined || NUMBERED_ITEM.test(next))) return undefined;
+    // Level 1 is left to upper-case titles ("OFFRES") that usually head numbered sections
+    return depth + 1;
+  }
+
+  if (isUpperCaseTitle(line) && !SENTENCE_END.test(line) && !isTableRow(line)) return 1;
+
+  return undefined;
+}
+
+// "2.1 Tarifs" → "Tarifs"; the heading path reads better without section numbers
+function toHeadingTitle(heading: string): string {
+  const numbered = heading.match(NUMBERED_HEADING);
+  return numbered ? numbered[2] : heading;
+}
+
+// Split a paragraph into sentences, each tagged with the line it starts on
+function splitSentences(paragraph: Array<{ text: string; lineNumber: number }>): Unit[] {
+  const sentences: Unit[] = [];
+  let current = '';
+  let startLine = paragraph[0].lineNumber;
+
+  for (const line of paragraph) {
+    const parts = line.text.split(/(?<=[.!?])\s+(?=[\p{Lu}\d"«(])/u);
+    parts.forEach((part, index) => {
+      if (!current) startLine = line.lineNumber;
+      current = current ? `${current} ${part}` : part;
+      const isLastPart = index === parts.length - 1;
+      if (!isLastPart || /[.!?](?:["»)\]]+)?$/.test(part)) {
+        sentences.push({ kind: 'text', text: current, lineNumber: startLine });
+        current = '';
+      }
+    });
+  }
+
+  if (current) sentences.push({ kind: 'text', text: current, lineNumber: startLine });
+  return sentences;
+}
+
+// Break a unit longer than the chunk size on word boundaries
+function splitOversizedUnit(unit: Unit, chunkSize: number): Unit[] {
+  if (unit.text.length <= chunkSize) return [unit];
+
+  const pieces: Unit[] = [];
+  let current = '';
+  for (const word of unit.text.split(/\s+/)) {
+    if (current && current.length + word.length + 1 > chunkSize) {
+      pieces.push({ ...unit, text: current });
+      current = word;
     } else {
-      currentChunk.push(line);
-      currentLength += lineLength + 1; // +1 for newline
+      current = current ? `${current} ${word}` : word;
     }
-    
-    lineNumber++;
+  }
+  if (current) pieces.push({ ...unit, text: current });
+  return pieces;
+}
+
+/**
+ * Turn the lines of a parsed document into headings, list items, table rows and sentences.
+ * Wrapped lines of a paragraph are joined before splitting into sentences.
+ * Lines covered by an extracted table are replaced by one record per data row.
+ */
+function segmentDocument(lines: string[], tables: ParsedTable[] = []): Unit[] {
+  const units: Unit[] = [];
+  let paragraph: Array<{ text: string; lineNumber: number }> = [];
+  let tableStart: number | undefined;
+
+  const tablesByLine = new Map(tables.filter(table => table.rows.length > 0).map(table => [table.lineNumber, table]));
+  let skipUntil = 0;
+
+  // Next non-empty line after each line, for headings that depend on what follows them
+  const nextLines: Array<string | undefined> = [];
+  for (let i = lines.length - 1, next: string | undefined; i >= 0; i--) {
+    nextLines[i] = next;
+    if (lines[i].trim()) next = lines[i].trim();
   }
 
-  // Add remaining chunk
-  if (currentChunk.length > 0) {
+  const flushParagraph = () => {
+    if (paragraph.length > 0) units.push(...splitSentences(paragraph));
+    paragraph = [];
+  };
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+    if (!line || lineNumber <= skipUntil) return;
+
+    const table = tablesByLine.get(lineNumber);
+    if (table) {
+      flushParagraph();
+      table.rows.forEach((row, rowIndex) => {
+        units.push({
+          kind: 'tableRecord',
+          text: formatTableRow(table, row),
+          lineNumber: lineNumber + rowIndex + 1,
+          record: tableRowToRecord(table, row)
+        });
+      });
+      skipUntil = lineNumber + table.rows.length;
+      return;
+    }
+
+    const previous = units[units.length - 1];
+
+    if (isTableRow(line)) {
+      flushParagraph();
+      if (previous?.kind !== 'table') tableStart = lineNumber;
+      units.push({ kind: 'table', text: line, lineNumber, tableStart });
+      return;
+    }
+
+    const level = paragraph.length === 0
+      ? detectHeading(line, previous, nextLines[index])
+      : detectHeading(line, undefined, nextLines[index]);
+    if (level !== undefined) {
+      flushParagraph();
+      units.push({ kind: 'heading', text: line.replace(/^#+\s+/, ''), lineNumber, level });
+      return;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      flushParagraph();
+      units.push({ kind: 'list', text: line, lineNumber });
+      return;
+    }
+
+    // A wrapped list item continues on the next line until it ends a sentence
+    if (paragraph.length === 0 && previous?.kind === 'list' && !SENTENCE_END.test(previous.text)) {
+      previous.text = `${previous.text} ${line}`;
+      return;
+    }
+
+    paragraph.push({ text: line, lineNumber });
+  });
+
+  flushParagraph();
+  return units;
+}
+
+/**
+ * Structure-aware chunker.
+ * Chunks never cross a heading, never split a sentence, list item or table row,
+ * and carry the heading path of their section. A table split over several chunks
+ * repeats its first (header) row at the top of each continuation chunk; rows of
+ * tables extracted by the parser become one chunk each.
+ */
+export function chunkDocument(
+  document: ParsedDocument,
+  options: Partial<ChunkerOptions> = {}
+): TextChunk[] {
+  const { chunkSize, overlap } = { ...DEFAULT_CHUNKER_OPTIONS, ...options };
+  const fileName = document.metadata.fileName;
+  const units = segmentDocument(document.lines, document.tables);
+
+  const chunks: TextChunk[] = [];
+  const headings: Array<{ level: number; text: string; unit: Unit }> = [];
+  let current: Unit[] = [];
+  let currentLength = 0;
+  let hasNewContent = false; // false while the chunk only holds its heading or carried-over context
+
+  const headingPath = () => headings.map(heading => heading.text).join(HEADING_PATH_SEPARATOR);
+
+  // Headings of the current chunk that are no longer on the heading path: a heading directly
+  // followed by a sibling or a higher-level heading has no section text of its own
+  const orphanHeadings = () => current.filter(unit =>
+    unit.kind === 'heading' && !headings.some(heading => heading.unit === unit)
+  );
+
+  const pushChunk = (final = false) => {
+    if (current.length === 0) return;
+    // A chunk made only of the headings on its path or of repeated context adds nothing,
+    // except for headings left at the end of the document
+    if (!hasNewContent && !final && orphanHeadings().length === 0) return;
+    const lineNumber = current[0].lineNumber;
     chunks.push({
-      text: currentChunk.join('\n'),
+      text: current.map(unit => unit.text).join('\n'),
       fileName,
-      lineNumber: lineNumber - currentChunk.length,
-      chunkIndex: chunkIndex,
+      lineNumber,
+      chunkIndex: chunks.length,
+      headingPath: headingPath(),
+      ...locateLine(document, lineNumber),
+      chunkType: 'text'
     });
+  };
+
+  // Trailing sentences/items (up to `overlap` chars) and the table header carried into the next chunk
+  const carryOver = (next: Unit): Unit[] => {
+    const carried: Unit[] = [];
+    let length = 0;
+    for (let i = current.length - 1; i >= 0; i--) {
+      const unit = current[i];
+      if (unit.kind === 'heading' || length + unit.text.length > overlap) break;
+      carried.unshift(unit);
+      length += unit.text.length + 1;
+    }
+
+    if (next.kind === 'table' && next.tableStart !== next.lineNumber) {
+      const header = current.find(unit => unit.kind === 'table' && unit.lineNumber === next.tableStart);
+      if (header) return [header];
+    }
+    return carried.filter(unit => unit.kind !== 'table');
+  };
+
+  for (const unit of units) {
+    if (unit.kind === 'heading') {
+      if (hasNewContent) pushChunk();
+      while (headings.length > 0 && headings[headings.length - 1].level >= unit.level!) {
+        headings.pop();
+      }
+      headings.push({ level: unit.level!, text: toHeadingTitle(unit.text), unit });
+      // Headings without text of their own are kept at the top of the next chunk
+      const kept = hasNewContent ? [] : orphanHeadings();
+      current = [...kept, unit];
+      currentLength = current.reduce((sum, u) => sum + u.text.length + 1, 0);
+      hasNewContent = false;
+      continue;
+    }
+
+    // Each extracted table row is a chunk of its own so price questions retrieve the exact row
+    if (unit.kind === 'tableRecord') {
+      pushChunk();
+      chunks.push({
+        text: unit.text,
+        fileName,
+        lineNumber: unit.lineNumber,
+        chunkIndex: chunks.length,
+        headingPath: headingPath(),
+        ...locateLine(document, unit.lineNumber),
+        chunkType: 'table-row',
+        tableRow: unit.record
+      });
+      current = [];
+      currentLength = 0;
+      hasNewContent = false;
+      continue;
+    }
+
+    for (const piece of splitOversizedUnit(unit, chunkSize)) {
+      if (currentLength + piece.text.length > chunkSize && hasNewContent) {
+        const carried = carryOver(piece);
+        pushChunk();
+        current = carried;
+        currentLength = carried.reduce((sum, u) => sum + u.text.length + 1, 0);
+      }
+      current.push(piece);
+      currentLength += piece.text.length + 1;
+      hasNewContent = true;
+    }
   }
 
+  pushChunk(true);
   return chunks;
 }
 
+/**
+ * Chunk plain lines with the structure-aware chunker.
+ * Kept for callers of the line-based API; new code should use chunkDocument.
+ */
+export function chunkText(
+  lines: string[],
+  fileName: string,
+  chunkSize: number = DEFAULT_CHUNKER_OPTIONS.chunkSize,
+  overlap: number = DEFAULT_CHUNKER_OPTIONS.overlap
+): TextChunk[] {
+  const document: ParsedDocument = {
+    text: lines.join('\n'),
+    lines,
+    metadata: { fileName, fileType: fileName.split('.').pop()?.toLowerCase() || '' },
+  };
+  return chunkDocument(document, { chunkSize, overlap });
+}
+
+/**
+ * Text sent to the embedding model for a chunk: the heading path gives the
+ * chunk the section context its own text may lack.
+ */
+export function getEmbeddingText(chunk: TextChunk): string {
+  return chunk.headingPath ? `${chunk.headingPath}\n${chunk.text}` : chunk.text;
+}
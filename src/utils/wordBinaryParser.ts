@@ -0,0 +1,228 @@
+import { CompoundFile } from './cfbReader';
+import { ParsedTable, fromCellRows } from './tableExtractor';
+
+/**
+ * Text extraction for legacy binary Word documents (Word 97-2003 .doc).
+ * The text lives in the WordDocument stream, scattered in pieces described by the
+ * piece table (Clx) stored in the 0Table/1Table stream.
+ * Spec: [MS-DOC] https://learn.microsoft.com/openspecs/office_file_formats/ms-doc
+ */
+
+const WORD_IDENT = 0xa5ec;
+const MIN_WORD97_NFIB = 0x00c1;
+
+// FIB offsets
+const FIB_NFIB = 0x02;
+const FIB_FLAGS = 0x0a;
+const FIB_CCP_TEXT = 0x4c;
+const FIB_FC_CLX = 0x1a2;
+const FIB_LCB_CLX = 0x1a6;
+
+const FLAG_ENCRYPTED = 0x0100;
+const FLAG_WHICH_TABLE = 0x0200;
+
+// Special characters of the main document text
+const PARAGRAPH_END = '\r';
+const CELL_END = '\x07';
+const FIELD_BEGIN = '\x13';
+const FIELD_SEPARATOR = '\x14';
+const FIELD_END = '\x15';
+
+// Windows-1252 characters in 0x80-0x9F, used by "compressed" (8-bit) pieces
+const CP1252_HIGH: Record<number, string> = {
+  0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡', 0x88: 'ˆ',
+  0x89: '‰', 0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž', 0x91: '‘', 0x92: '’', 0x93: '“',
+  0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—', 0x98: '˜', 0x99: '™', 0x9a: 'š', 0x9b: '›',
+  0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ',
+};
+
+export class WordBinaryFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WordBinaryFormatError';
+  }
+}
+
+export interface WordBinaryText {
+  lines: string[];
+  tables: ParsedTable[];
+}
+
+function decodeCompressed(bytes: Buffer): string {
+  let text = '';
+  for (const byte of bytes) {
+    text += CP1252_HIGH[byte] ?? String.fromCharCode(byte);
+  }
+  return text;
+}
+
+/**
+ * Read the main document text through the piece table.
+ */
+function readMainText(wordDocument: Buffer, table: Buffer, textLength: number): string {
+  const fcClx = wordDocument.readUInt32LE(FIB_FC_CLX);
+  const lcbClx = wordDocument.readUInt32LE(FIB_LCB_CLX);
+  if (lcbClx === 0 || fcClx + lcbClx > table.length) {
+    throw new WordBinaryFormatError('Missing piece table');
+  }
+
+  const clxEnd = fcClx + lcbClx;
+
+  // Skip the Prc entries (formatting) that precede the Pcdt. A negative size would
+  // loop forever on a crafted file, so each entry must move forward inside the Clx
+  let offset = fcClx;
+  while (table[offset] === 0x01) {
+    if (offset + 3 > clxEnd) throw new WordBinaryFormatError('Corrupt piece table');
+    const grpprlLength = table.readInt16LE(offset + 1);
+    if (grpprlLength < 0) throw new WordBinaryFormatError('Corrupt piece table');
+    offset += 3 + grpprlLength;
+    if (offset >= clxEnd) throw new WordBinaryFormatError('Corrupt piece table');
+  }
+  if (table[offset] !== 0x02 || offset + 5 > clxEnd) {
+    throw new WordBinaryFormatError('Corrupt piece table');
+  }
+
+  // PlcPcd: (n + 1) character positions of 4 bytes, then n piece descriptors of 8 bytes
+  const plcLength = table.readUInt32LE(offset + 1);
+  const plc = offset + 5;
+  if (plcLength < 16 || (plcLength - 4) % 12 !== 0 || plc + plcLength > clxEnd) {
+    throw new WordBinaryFormatError('Corrupt piece table');
+  }
+  const pieceCount = (plcLength - 4) / 12;
+
+  let text = '';
+  for (let i = 0; i < pieceCount && text.length < textLength; i++) {
+    const cpStart = table.readUInt32LE(plc + i * 4);
+    const cpEnd = table.readUInt32LE(plc + (i + 1) * 4);
+    const pcd = plc + (pieceCount + 1) * 4 + i * 8;
+    const fcValue = table.readUInt32LE(pcd + 2);
+    const compressed = (fcValue & 0x40000000) !== 0;
+    const fc = fcValue & 0x3fffffff;
+    const charCount = Math.min(cpEnd - cpStart, textLength - text.length);
+
+    if (compressed) {
+      const start = fc / 2;
+      text += decodeCompressed(wordDocument.subarray(start, start + charCount));
+    } else {
+      text += wordDocument.toString('utf16le', fc, fc + charCount * 2);
+    }
+  }
+
+  return text;
+}
+
+// Keep the displayed result of fields (hyperlinks, page numbers…) and drop their codes
+function stripFieldCodes(text: string): string {
+  let result = '';
+  // Stack of open fields: true while inside the code part (before the separator)
+  const fields: boolean[] = [];
+
+  for (const char of text) {
+    if (char === FIELD_BEGIN) {
+      fields.push(true);
+    } else if (char === FIELD_SEPARATOR) {
+      if (fields.length > 0) fields[fields.length - 1] = false;
+    } else if (char === FIELD_END) {
+      fields.pop();
+    } else if (!fields.some(inCode => inCode)) {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+function cleanText(text: string): string {
+  return text
+    .replace(/[\x0b\x0c]/g, PARAGRAPH_END) // line and page breaks
+    .replace(/\x1e/g, '-') // non-breaking hyphen
+    .replace(/[\x00-\x06\x08\x1f]/g, '') // objects, pictures, optional hyphens
+    .replace(/\xa0/g, ' ');
+}
+
+/**
+ * Split the text into paragraphs and tables. In Word binary files every table cell
+ * ends with a cell mark (0x07) and every row with one more, so "a\x07b\x07\x07" is
+ * the row [a, b].
+ */
+function structureText(text: string): WordBinaryText {
+  const lines: string[] = [];
+  const tables: ParsedTable[] = [];
+  let tableRows: string[][] = [];
+  let row: string[] = [];
+  let buffer = '';
+  let previousWasCellEnd = false;
+
+  const flushTable = () => {
+    if (tableRows.length === 0) return;
+    const table = fromCellRows(tableRows, lines.length + 1);
+    lines.push(...table.lines);
+    tables.push(...table.tables);
+    tableRows = [];
+  };
+
+  for (const char of text) {
+    if (char === CELL_END) {
+      if (previousWasCellEnd && buffer === '') {
+        if (row.some(cell => cell)) tableRows.push(row);
+        row = [];
+      } else {
+        // Paragraph breaks inside a cell become spaces
+        row.push(buffer.replace(/\r/g, ' ').replace(/\s+/g, ' ').trim());
+        buffer = '';
+      }
+      previousWasCellEnd = true;
+      continue;
+    }
+
+    if (char === PARAGRAPH_END && row.length === 0) {
+      flushTable();
+      const line = buffer.replace(/\s+/g, ' ').trim();
+      if (line) lines.push(line);
+      buffer = '';
+    } else {
+      buffer += char;
+    }
+    previousWasCellEnd = false;
+  }
+
+  flushTable();
+  const tail = buffer.replace(/\s+/g, ' ').trim();
+  if (tail) lines.push(tail);
+
+  return { lines, tables };
+}
+
+/**
+ * Extract the main document text (body only: no headers, footnotes or comments)
+ * of a Word 97-2003 file.
+ */
+export function parseDocBuffer(buffer: Buffer): WordBinaryText {
+  const file = new CompoundFile(buffer);
+
+  const wordDocument = file.getStream('WordDocument');
+  if (!wordDocument || wordDocument.length < FIB_LCB_CLX + 4) {
+    throw new WordBinaryFormatError('Not a Word document (no WordDocument stream)');
+  }
+  if (wordDocument.readUInt16LE(0) !== WORD_IDENT) {
+    throw new WordBinaryFormatError('Not a Word document (bad FIB signature)');
+  }
+  if (wordDocument.readUInt16LE(FIB_NFIB) < MIN_WORD97_NFIB) {
+    throw new WordBinaryFormatError('Word 6.0/95 documents are not supported; save the file as .docx');
+  }
+
+  const flags = wordDocument.readUInt16LE(FIB_FLAGS);
+  if (flags & FLAG_ENCRYPTED) {
+    throw new WordBinaryFormatError('The document is password protected');
+  }
+
+  const tableName = flags & FLAG_WHICH_TABLE ? '1Table' : '0Table';
+  const table = file.getStream(tableName);
+  if (!table) {
+    throw new WordBinaryFormatError(`Missing ${tableName} stream`);
+  }
+
+  const textLength = wordDocument.readUInt32LE(FIB_CCP_TEXT);
+  const text = readMainText(wordDocument, table, textLength);
+  return structureText(cleanText(stripFieldCodes(text)));
+}